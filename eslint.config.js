@@ -39,6 +39,8 @@ export default [
         clearTimeout: "readonly",
         fetch: "readonly",
         AbortSignal: "readonly",
+        AbortController: "readonly",
+        performance: "readonly",
       },
     },
     plugins: {
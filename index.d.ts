@@ -4,5 +4,5 @@
  * @license MIT
  */
 
-export { gluify, Gluify, PipeFunction } from './dist/Gluify';
+export { gluify, flow, Gluify, GluifyIterable, GluifyTimeoutError, GluifyStepError, GluifyValidationError, PipeFunction, GluifyResult, ErrorClass, ErrorLike, Schema, ValidationIssue, RetryOptions, Clock, ConcurrencyOptions, SortKey, SortOptions, StatsOptions, VarianceOptions, HistogramBucket, GluifyCache, MemoizeOptions, RunCacheOptions, RunOptions, RunAsyncOptions, StepContext, StepEvent, StepListener, StepMeta, StepDescriptor, ExplainStep, Explanation } from './dist/Gluify';
 export { gluify as default } from './dist/Gluify';
@@ -4,5 +4,5 @@
  * @license MIT
  */
 
-export { gluify, Gluify, PipeFunction } from './dist/Gluify.js';
+export { gluify, flow, Gluify, GluifyIterable, GluifyTimeoutError, GluifyStepError, GluifyValidationError, PipeFunction } from './dist/Gluify.js';
 export { gluify as default } from './dist/Gluify.js';
@@ -3,16 +3,943 @@
 // Define a generic type for a function that takes a value and returns a new value
 type PipeFunction<T, U, Args extends unknown[]> = (value: T, ...args: Args) => U;
 
+// Per-run context handed to steps that opt in (see pipeAsyncWithContext)
+interface StepContext {
+  // Aborts when the caller of runAsync({ signal }) cancels the pipeline
+  signal?: AbortSignal;
+}
+
+// A function run by all() on the current value
+type BranchFunction<T> = (value: T) => unknown;
+
+// A function run by allWithContext(), also receiving the StepContext
+type ContextBranchFunction<T> = (value: T, context: StepContext) => unknown;
+
+// Joined results of all(): the awaited return value of each branch, keyed like the branches
+type BranchResults<B> = {
+  [K in keyof B]: B[K] extends (...args: never[]) => infer U ? Awaited<U> : never;
+};
+
+// Element type of an array pipeline value
+type ArrayItem<T> = T extends unknown[] ? T[number] : never;
+
+// Identity of an element in uniqueBy() and the set operators: a key function or a property name
+type KeySelector<Item> = ((item: Item) => unknown) | keyof Item;
+
+// Dotted paths to the properties of T, nested up to 4 levels - arrays, dates and
+// functions are leaves
+type KeyPath<T, Depth extends unknown[] = []> = Depth['length'] extends 4
+  ? never
+  : T extends object
+    ? {
+        [K in keyof T & string]: NonNullable<T[K]> extends readonly unknown[] | Date | ((...args: never[]) => unknown)
+          ? K
+          : NonNullable<T[K]> extends object
+            ? K | `${K}.${KeyPath<NonNullable<T[K]>, [...Depth, unknown]>}`
+            : K;
+      }[keyof T & string]
+    : never;
+
+// Value at a dotted key path of T
+type PathValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T
+    ? PathValue<NonNullable<T[Head]>, Rest>
+    : never
+  : P extends keyof T
+    ? T[P]
+    : never;
+
+// Numeric key of the statistics operators: a key path to a number or a key function
+type NumberSelector<Item> = { [P in KeyPath<Item>]: PathValue<Item, P> extends number ? P : never }[KeyPath<Item>] | ((item: Item) => number);
+
+// Arguments of the statistics operators - number arrays may leave out the key selector
+type StatsArgs<T, Rest extends unknown[]> = T extends number[]
+  ? [by?: NumberSelector<number>, ...rest: Rest] | Rest
+  : T extends unknown[]
+    ? [by: NumberSelector<T[number]>, ...rest: Rest]
+    : never;
+
+// What the statistics operators return for an empty array: throw (default), undefined or NaN
+type EmptyPolicy = 'throw' | 'undefined' | 'nan';
+
+interface StatsOptions<E extends EmptyPolicy = EmptyPolicy> {
+  empty?: E;
+}
+
+interface VarianceOptions<E extends EmptyPolicy = EmptyPolicy> extends StatsOptions<E> {
+  // Divide by n - 1 instead of n - needs at least two values
+  sample?: boolean;
+}
+
+// Result of a statistics operator for an empty policy
+type StatResult<E extends EmptyPolicy> = E extends 'undefined' ? number | undefined : number;
+
+// A histogram() bucket - `to` is exclusive except for the last bucket
+interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// Item types of the arrays or iterables passed to zip() and friends
+type ItemsOf<O extends readonly unknown[]> = {
+  [K in keyof O]: O[K] extends Iterable<infer Item> | AsyncIterable<infer Item> ? Item : never;
+};
+
+// Result of unzip(): one array per tuple position
+type Unzipped<Tuple extends readonly unknown[]> = { -readonly [K in keyof Tuple]: Tuple[K][] };
+
+// Sort key of sortBy() and friends: a key path or a key function
+type SortKeySelector<Item> = KeyPath<Item> | ((item: Item) => unknown);
+
+// A key of sortBy() with its direction and where null, undefined and NaN keys go
+// (last by default, whatever the direction). Without `key`, elements are compared themselves
+interface SortKey<Item> {
+  key?: SortKeySelector<Item>;
+  dir?: 'asc' | 'desc';
+  nulls?: 'first' | 'last';
+}
+
+// Sort keys of sortBy() and topN(), most significant first
+type SortBy<Item> = SortKeySelector<Item> | SortKey<Item> | (SortKeySelector<Item> | SortKey<Item>)[];
+
+// String comparison of sortBy() and friends: set `locales` or `collator` to compare
+// strings with an Intl.Collator instead of by UTF-16 code units
+interface SortOptions {
+  locales?: string | string[];
+  collator?: Intl.CollatorOptions;
+}
+
+// Input of branch()'s true branch and of when()'s function - narrowed when the predicate is a type guard
+type Guarded<P, T> = P extends (value: T) => value is (infer S extends T) ? S : T;
+
+// Input of branch()'s false branch - what a type guard predicate rules out
+type Unguarded<P, T> = P extends (value: T) => value is (infer S extends T) ? Exclude<T, S> : T;
+
+// A case of match(): the first case whose predicate accepts the value runs its `then`
+interface MatchCase<T, U> {
+  case: (value: T) => boolean;
+  then: (value: T) => U;
+}
+
+// Union of the results of match() cases
+type CaseResults<C extends MatchCase<never, unknown>[]> = C[number] extends infer Case
+  ? Case extends { then: (...args: never[]) => infer U } ? U : never
+  : never;
+
+// Handlers of matchOn(): one per variant of the discriminant `K`, receiving the narrowed variant
+type MatchHandlers<T, K extends keyof T> = {
+  [V in T[K] & PropertyKey]: (value: Extract<T, Record<K, V>>) => unknown;
+};
+
+// Union of the results of matchOn() handlers
+type HandlerResults<H> = {
+  [V in keyof H]: H[V] extends (...args: never[]) => infer U ? U : never;
+}[keyof H];
+
+// Metadata recorded for every operation: the operator that created it, its
+// arguments and an optional name (see named())
+interface StepMeta {
+  kind: string;
+  name?: string;
+  args: unknown[];
+  // Skipped by explain() - set for tap(), forEachAsync(), finally() and by sideEffect()
+  sideEffect?: boolean;
+}
+
+// A step as returned by describe()
+interface StepDescriptor extends StepMeta {
+  index: number;
+}
+
+// A row of explain(): the step, what happened to it and - for when(), branch(),
+// match() and matchOn() - which branch it took. Markers like retry() are left out
+interface ExplainStep extends StepDescriptor {
+  // 'handled' means an error handler fired, 'skipped' that the step did not run
+  status: 'ok' | 'failed' | 'handled' | 'skipped';
+  input?: unknown;
+  output?: unknown;
+  error?: Error;
+  branch?: string;
+}
+
+// Report of explain() / explainAsync(): every step, starting with the initial
+// function (index -1), and the final outcome
+interface Explanation<T> {
+  steps: ExplainStep[];
+  result: GluifyResult<T>;
+}
+
+// Key of the internal StepContext callback that records the branch a step took
+const branchRecorder = Symbol('branchRecorder');
+
+// Context handed to steps by explain(), able to record branches
+interface ExplainContext extends StepContext {
+  [branchRecorder]?: (branch: string) => void;
+}
+
+// Report the branch taken by the running step, when explain() listens
+function recordBranch(context: StepContext | undefined, branch: string): void {
+  (context as ExplainContext | undefined)?.[branchRecorder]?.(branch);
+}
+
+// Operators flagged as side effects, which explain() skips
+const sideEffectKinds = new Set(['tap', 'forEachAsync', 'finally']);
+
 // Internal operation type
-type Operation = (value: unknown) => unknown;
+interface Operation {
+  (value: unknown, context?: StepContext): unknown;
+  __meta?: StepMeta;
+}
 
 // Internal type for error handler operations
 interface ErrorHandlerOperation extends Operation {
   __isErrorHandler: true;
   __handler: (error: Error) => unknown;
+  __matches: (error: Error) => boolean;
+}
+
+// Internal type for retry operations - re-run the previous step (or everything
+// since the last checkpoint) when it fails
+interface RetryOperation extends Operation {
+  __isRetry: true;
+  __options: Required<Omit<RetryOptions, 'retryIf'>> & Pick<RetryOptions, 'retryIf'>;
+}
+
+// Internal type for checkpoint operations - mark where a retried segment starts
+interface CheckpointOperation extends Operation {
+  __isCheckpoint: true;
+}
+
+// Internal type for timeout operations - bound the previous step during runAsync()
+interface TimeoutOperation extends Operation {
+  __isTimeout: true;
+  __ms: number;
+}
+
+// Internal type for finally operations - cleanup that runs whether or not an error is pending
+interface FinallyOperation extends Operation {
+  __isFinally: true;
+  __cleanup: () => unknown;
+}
+
+// Internal type for pipe() steps running a flow() template - runAsync() runs
+// the template's operations with its own executor instead of calling the step
+interface TemplateOperation extends Operation {
+  __template: Gluify<unknown, unknown>;
+}
+
+// Internal type for segment operations - open or close an error boundary,
+// so handlers inside only see errors raised inside (see through())
+interface SegmentOperation extends Operation {
+  __segment: 'open' | 'close';
+}
+
+// Key function for a KeySelector - without one, elements are their own key
+function keyFunction(by: unknown): (item: unknown) => unknown {
+  if (by === undefined) return item => item;
+  if (typeof by === 'function') return by as (item: unknown) => unknown;
+  return item => (item as Record<PropertyKey, unknown>)[by as PropertyKey];
+}
+
+// Keep the first element of each key
+function uniqueByKey(items: unknown[], key: (item: unknown) => unknown): unknown[] {
+  const seen = new Set<unknown>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+function positiveInteger(kind: string, name: string, value: number): number {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${kind}() ${name} must be a positive integer`);
+  }
+  return value;
+}
+
+// One array per tuple position, as long as the longest tuple
+function unzipTuples(tuples: unknown[][]): unknown[][] {
+  const width = Math.max(0, ...tuples.map(tuple => tuple.length));
+  return Array.from({ length: width }, (_, position) => tuples.map(tuple => tuple[position]));
+}
+
+// Key selector and options of statistics arguments, which may be the options alone
+function statsArgs(args: unknown[]): [unknown, VarianceOptions] {
+  return typeof args[0] === 'object' && args[0] !== null
+    ? [undefined, args[0] as VarianceOptions]
+    : [args[0], (args[1] as VarianceOptions | undefined) ?? {}];
+}
+
+// Result for fewer than `minimum` values - one, or two for sample variance
+function emptyStat(kind: string, options: StatsOptions, minimum: number): number | undefined {
+  const { empty = 'throw' } = options;
+  if (empty === 'undefined') return undefined;
+  if (empty === 'nan') return NaN;
+  throw new Error(`${kind}() needs at least ${minimum === 1 ? 'one value' : 'two values'}`);
+}
+
+// Linearly interpolated percentile of sorted values
+function percentileOf(sorted: number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return lower === upper ? sorted[lower] : sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function varianceOf(values: number[], sample: boolean): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const squares = values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  return squares / (values.length - (sample ? 1 : 0));
+}
+
+// Count values per bucket between ascending boundaries, ignoring values outside them
+function histogramOf(values: number[], boundaries: number[]): HistogramBucket[] {
+  const buckets = boundaries.slice(1).map((to, i) => ({ from: boundaries[i], to, count: 0 }));
+  for (const value of values) {
+    if (!(value >= boundaries[0] && value <= boundaries[boundaries.length - 1])) continue;
+    let i = 0;
+    while (i < buckets.length - 1 && value >= buckets[i].to) i++;
+    buckets[i].count++;
+  }
+  return buckets;
+}
+
+// A resolved sort key
+interface SortCriterion {
+  key: (item: unknown) => unknown;
+  dir: 1 | -1;
+  nulls: 'first' | 'last';
+}
+
+// An element with its sort keys, computed once, and original position for stable ties
+interface SortEntry {
+  item: unknown;
+  index: number;
+  keys: unknown[];
+}
+
+// Key function for a key path or key function - paths are read one property at a time
+function keyPathFunction(key: unknown): (item: unknown) => unknown {
+  if (key === undefined) return item => item;
+  if (typeof key === 'function') return key as (item: unknown) => unknown;
+  const path = String(key).split('.');
+  return item => path.reduce<unknown>((value, part) => (value == null ? undefined : (value as Record<string, unknown>)[part]), item);
+}
+
+function sortCriteria(by: unknown): SortCriterion[] {
+  const specs: unknown[] = by === undefined ? [{}] : Array.isArray(by) ? by : [by];
+  return specs.map(spec => {
+    const { key, dir = 'asc', nulls = 'last' } = typeof spec === 'object' ? (spec as SortKey<unknown>) : { key: spec as SortKeySelector<unknown> };
+    return { key: keyPathFunction(key), dir: dir === 'desc' ? -1 : 1, nulls };
+  });
+}
+
+function sortCollator(options: SortOptions): Intl.Collator | undefined {
+  return options.locales !== undefined || options.collator !== undefined
+    ? new Intl.Collator(options.locales, options.collator)
+    : undefined;
+}
+
+// null, undefined and NaN keys are placed by `nulls` rather than compared
+function isSortNull(value: unknown): boolean {
+  return value === null || value === undefined || Number.isNaN(value);
+}
+
+function compareSortValues(a: unknown, b: unknown, collator: Intl.Collator | undefined): number {
+  if (collator && typeof a === 'string' && typeof b === 'string') return collator.compare(a, b);
+  return (a as number) < (b as number) ? -1 : (a as number) > (b as number) ? 1 : 0;
+}
+
+// Compare entries by their keys, then by position - a total order, so sorting is stable
+function entryComparator(criteria: SortCriterion[], collator: Intl.Collator | undefined) {
+  return (a: SortEntry, b: SortEntry): number => {
+    for (let i = 0; i < criteria.length; i++) {
+      const aNull = isSortNull(a.keys[i]);
+      const bNull = isSortNull(b.keys[i]);
+      if (aNull || bNull) {
+        if (aNull && bNull) continue;
+        return aNull === (criteria[i].nulls === 'first') ? -1 : 1;
+      }
+      const order = compareSortValues(a.keys[i], b.keys[i], collator);
+      if (order !== 0) return order * criteria[i].dir;
+    }
+    return a.index - b.index;
+  };
+}
+
+function sortEntries(items: unknown[], criteria: SortCriterion[]): SortEntry[] {
+  return items.map((item, index) => ({ item, index, keys: criteria.map(criterion => criterion.key(item)) }));
+}
+
+// The element with the smallest key (sign 1) or the largest (sign -1) - the first
+// one wins ties and elements with null keys are skipped
+function extremeBy(items: unknown[], key: (item: unknown) => unknown, collator: Intl.Collator | undefined, sign: 1 | -1): unknown {
+  let best: unknown;
+  let bestKey: unknown;
+  for (const item of items) {
+    const k = key(item);
+    if (isSortNull(k)) continue;
+    if (isSortNull(bestKey) || compareSortValues(k, bestKey, collator) * sign < 0) {
+      best = item;
+      bestKey = k;
+    }
+  }
+  return best;
+}
+
+// The first `n` entries in `compare` order, kept in a heap with the last of them on
+// top - O(items * log n) instead of sorting every entry
+function selectTop(entries: SortEntry[], n: number, compare: (a: SortEntry, b: SortEntry) => number): SortEntry[] {
+  const heap: SortEntry[] = [];
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+  };
+  for (const entry of entries) {
+    if (heap.length < n) {
+      heap.push(entry);
+      for (let i = heap.length - 1; i > 0 && compare(heap[i], heap[(i - 1) >> 1]) > 0; i = (i - 1) >> 1) {
+        swap(i, (i - 1) >> 1);
+      }
+    } else if (n > 0 && compare(entry, heap[0]) < 0) {
+      heap[0] = entry;
+      for (let i = 0; ; ) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let last = i;
+        if (left < n && compare(heap[left], heap[last]) > 0) last = left;
+        if (right < n && compare(heap[right], heap[last]) > 0) last = right;
+        if (last === i) break;
+        swap(i, last);
+        i = last;
+      }
+    }
+  }
+  return heap.sort(compare);
+}
+
+// Internal type for array operations the executor may fuse into a single loop
+// (see runFused()): map() and filter() with callbacks that only see (item, index),
+// take() and skip() with a non-negative integer count
+interface FusableOperation extends Operation {
+  __fusable:
+    | { type: 'map'; fn: (item: unknown, index: number) => unknown }
+    | { type: 'filter'; fn: (item: unknown, index: number) => unknown }
+    | { type: 'take'; n: number }
+    | { type: 'skip'; n: number };
+}
+
+// Whether a map() or filter() callback can only see (item, index), so fusing it is
+// safe: at most two parameters, none of them rest or default parameters, and no
+// `arguments`. Native and bound functions don't show their source, so they don't qualify
+function ignoresArray(fn: (...args: never[]) => unknown): boolean {
+  if (fn.length > 2) return false;
+  const source = Function.prototype.toString.call(fn);
+  if (/\[native code\]|\barguments\b/.test(source)) return false;
+  // The parameters end at the first `)` or, for `x => ...`, at the arrow
+  const ends = [source.indexOf(')'), source.indexOf('=>')].filter(i => i !== -1);
+  return !/=|\.\.\./.test(source.slice(0, Math.min(...ends)));
+}
+
+// Stand-in for a missing element of a sparse array while it flows through fused steps
+const hole = Symbol('hole');
+
+// Run fused map/filter/take/skip steps over a single working copy of `items`:
+// map() writes in place, filter() compacts in place and take()/skip() only move
+// the bounds, so no intermediate array is allocated. Each step still sees every
+// item before the next one starts, so results, errors and callback order match
+// running the steps one after another - holes included
+function runFused(
+  stages: FusableOperation['__fusable'][],
+  items: unknown[]
+): { value: unknown[] } | { error: unknown; step: number } {
+  const buffer: unknown[] = new Array(items.length);
+  let sparse = false;
+  for (let k = 0; k < items.length; k++) {
+    const item = items[k];
+    if (item === undefined && !(k in items)) {
+      buffer[k] = hole;
+      sparse = true;
+    } else {
+      buffer[k] = item;
+    }
+  }
+
+  // The current array is buffer[start..end)
+  let start = 0;
+  let end = items.length;
+  for (let s = 0; s < stages.length; s++) {
+    const stage = stages[s];
+    if (stage.type === 'take') {
+      end = Math.min(end, start + stage.n);
+      continue;
+    }
+    if (stage.type === 'skip') {
+      start = Math.min(end, start + stage.n);
+      continue;
+    }
+    try {
+      if (stage.type === 'map') {
+        // map() keeps holes without calling back
+        for (let k = start; k < end; k++) {
+          const item = buffer[k];
+          if (item !== hole) buffer[k] = stage.fn(item, k - start);
+        }
+      } else {
+        // filter() drops holes without calling back
+        let kept = start;
+        for (let k = start; k < end; k++) {
+          const item = buffer[k];
+          if (item !== hole && stage.fn(item, k - start)) buffer[kept++] = item;
+        }
+        end = kept;
+      }
+    } catch (error) {
+      return { error, step: s };
+    }
+  }
+
+  if (!sparse && start === 0) {
+    buffer.length = end;
+    return { value: buffer };
+  }
+  if (!sparse) {
+    return { value: buffer.slice(start, end) };
+  }
+  const output: unknown[] = new Array(end - start);
+  for (let k = start; k < end; k++) {
+    if (buffer[k] !== hole) output[k - start] = buffer[k];
+  }
+  return { value: output };
 }
 
-class Gluify<T> {
+// Source of delays for retry(). Inject a custom clock to control time in tests
+interface Clock {
+  sleep(ms: number): Promise<void>;
+}
+
+// Default clock - looks up setTimeout at call time so fake timers apply
+const systemClock: Clock = {
+  sleep: (ms: number) => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+interface RetryOptions {
+  // Total number of tries, including the first one (default: 3)
+  attempts?: number;
+  // Base delay in milliseconds between tries (default: 0)
+  delay?: number;
+  // 'fixed' waits `delay` every time, 'exponential' doubles it after each try (default: 'fixed')
+  backoff?: 'fixed' | 'exponential';
+  // Randomize delays: true for full jitter, or the fraction (0-1) of the delay to randomize
+  jitter?: boolean | number;
+  // Only retry errors this predicate accepts - `attempt` is the number of tries made so far
+  retryIf?: (error: Error, attempt: number) => boolean;
+  clock?: Clock;
+}
+
+// Delay before the next try, after `attempt` tries have failed
+function retryDelay(options: RetryOperation['__options'], attempt: number): number {
+  const base = options.backoff === 'exponential'
+    ? options.delay * 2 ** (attempt - 1)
+    : options.delay;
+  const jitter = options.jitter === true ? 1 : options.jitter === false ? 0 : options.jitter;
+  return base - base * jitter * Math.random();
+}
+
+// Rejection reason for steps or pipelines that exceed their timeout
+class GluifyTimeoutError extends Error {
+  readonly timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = 'GluifyTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+// Emitted around every executed step: 'start' before it runs, then 'end' with its
+// output or 'error' with what it threw. Index -1 is the lazy initializer
+interface StepEvent {
+  type: 'start' | 'end' | 'error';
+  index: number;
+  // Set for named steps (see named())
+  name?: string;
+  input: unknown;
+  output?: unknown;
+  error?: Error;
+  // Milliseconds spent in the step, on 'end' and 'error'
+  duration?: number;
+}
+
+type StepListener = (event: StepEvent) => void;
+
+interface RunOptions {
+  // Called with a StepEvent for every executed step, after any global Gluify.use() listeners
+  onStep?: StepListener;
+  // Wrap an error escaping the pipeline in a GluifyStepError. catch() handlers
+  // still receive the original error
+  wrapErrors?: boolean;
+  // Transform the input recorded on GluifyStepError, e.g. to strip secrets.
+  // If it throws, no input is recorded
+  redactInput?: (input: unknown) => unknown;
+}
+
+interface RunAsyncOptions extends RunOptions {
+  // Bound the whole pipeline, in milliseconds
+  timeout?: number;
+  // Stop the pipeline between steps once aborted, rejecting with the signal's reason
+  signal?: AbortSignal;
+  // Reuse the result of an earlier successful run with the same cache key
+  cache?: RunCacheOptions;
+}
+
+// Pluggable cache used by memoize() and runAsync({ cache }). A Map works,
+// and custom stores may honour the optional per-entry ttl (in milliseconds)
+interface GluifyCache {
+  get(key: unknown): unknown;
+  set(key: unknown, value: unknown, ttl?: number): unknown;
+  delete(key: unknown): unknown;
+}
+
+// Options for memoize()
+interface MemoizeOptions {
+  // Derive the cache key from the step's input (default: the input itself)
+  key?: (input: unknown) => unknown;
+  // Most entries kept by the default in-memory cache (default: 100)
+  max?: number;
+  // Milliseconds an entry stays fresh (default: forever)
+  ttl?: number;
+  // Custom cache, replacing the default in-memory LRU cache
+  store?: GluifyCache;
+}
+
+// Options for runAsync({ cache })
+interface RunCacheOptions {
+  // Key of this run (default: the input of a flow() template, or none)
+  key?: unknown;
+  // Milliseconds a result stays fresh (default: forever)
+  ttl?: number;
+  // Custom cache, replacing the pipeline's default in-memory LRU cache
+  store?: GluifyCache;
+}
+
+// Limits applied while awaiting steps in runAsync()
+interface ExecutionLimits {
+  // Timeout per step index (-1 is the lazy initializer)
+  steps: Map<number, number>;
+  // Pipeline timeout and the absolute time it expires at
+  timeout?: number;
+  deadline?: number;
+  signal?: AbortSignal;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+}
+
+// Await `value`, rejecting with `onTimeout()` if it is still pending after `ms`
+async function withTimeout(value: PromiseLike<unknown>, ms: number, onTimeout: () => Error): Promise<unknown> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(onTimeout()), ms);
+  });
+  try {
+    return await Promise.race([value, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Error an aborted signal rejects with (`reason` is missing on older runtimes)
+function abortReason(signal: AbortSignal): Error {
+  return (signal.reason as Error | undefined) ?? new Error('The pipeline was aborted');
+}
+
+// Await `value`, rejecting with the signal's reason as soon as it aborts
+async function withAbort(value: PromiseLike<unknown>, signal: AbortSignal): Promise<unknown> {
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([value, aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+// Options for the async array utilities (mapAsync() and friends)
+interface ConcurrencyOptions {
+  // Most callbacks pending at once (default: no limit)
+  concurrency?: number;
+}
+
+// Validate the concurrency option of an async array utility
+function concurrencyLimit(kind: string, options: ConcurrencyOptions): number {
+  const { concurrency = Infinity } = options;
+  if (!(concurrency >= 1)) {
+    throw new Error(`${kind}() concurrency must be at least 1`);
+  }
+  return concurrency;
+}
+
+// Await `fn` for every item with at most `limit` calls pending at once, keeping
+// results in item order. Stops starting new calls once one fails or the signal aborts
+async function mapConcurrent(
+  items: unknown[],
+  limit: number,
+  fn: (item: unknown, index: number) => unknown,
+  signal?: AbortSignal
+): Promise<unknown[]> {
+  const results = new Array<unknown>(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      if (signal?.aborted) throw abortReason(signal);
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Default in-memory cache: the least recently used entry is evicted once there
+// are more than `max`, and entries expire `ttl` milliseconds after being set
+class LRUCache implements GluifyCache {
+  private entries = new Map<unknown, { value: unknown; expires: number }>();
+  private max: number;
+  private ttl: number;
+
+  constructor(max: number = 100, ttl: number = Infinity) {
+    this.max = max;
+    this.ttl = ttl;
+  }
+
+  get(key: unknown): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) return undefined;
+    // Re-insert so the entry becomes the most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: unknown, value: unknown, ttl: number = this.ttl): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + ttl });
+    if (this.entries.size > this.max) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  delete(key: unknown): boolean {
+    return this.entries.delete(key);
+  }
+}
+
+// Default runAsync({ cache }) stores, one per list of operations so templates
+// created with flow() share theirs across calls
+const runCaches = new WeakMap<Operation[], GluifyCache>();
+
+// Wrap `fn` so results are cached by the key of its input. Results are boxed so
+// `undefined` can be cached too, and promises are cached until they reject
+function memoized(fn: Operation, options: MemoizeOptions): Operation {
+  const { key = (input: unknown) => input, ttl, store = new LRUCache(options.max, ttl) } = options;
+  const call = (input: unknown, context?: StepContext) => {
+    const id = key(input);
+    const hit = store.get(id) as { value: unknown } | undefined;
+    if (hit) return hit.value;
+    const value = fn(input, context);
+    store.set(id, { value }, ttl);
+    if (isPromiseLike(value)) {
+      Promise.resolve(value).catch(() => store.delete(id));
+    }
+    return value;
+  };
+  // Key pending inputs by their resolved value
+  return (value: unknown, context?: StepContext) =>
+    isPromiseLike(value) ? Promise.resolve(value).then(input => call(input, context)) : call(value, context);
+}
+
+// Error thrown in wrapErrors mode, describing the step an error escaped from.
+// The original error is kept as `cause`
+class GluifyStepError extends Error {
+  readonly stepIndex: number;
+  readonly stepName?: string;
+  readonly kind?: string;
+  readonly input: unknown;
+
+  constructor(cause: Error, stepIndex: number, meta: StepMeta | undefined, input: unknown) {
+    const step = stepIndex === -1
+      ? 'Initial function'
+      : `Step ${stepIndex} (${meta?.name ?? meta?.kind ?? 'unknown'})`;
+    super(`${step} failed: ${cause?.message ?? String(cause)}`, { cause });
+    this.name = 'GluifyStepError';
+    this.stepIndex = stepIndex;
+    this.stepName = meta?.name;
+    this.kind = meta?.kind;
+    this.input = input;
+  }
+}
+
+// Validators accepted by validate(): anything with a Zod-style parse() that
+// throws on invalid input, or safeParse() that reports it
+type Schema<Out> =
+  | { safeParse(value: unknown): { success: true; data: Out } | { success: false; error: unknown } }
+  | { parse(value: unknown): Out };
+
+// A single validation problem, as reported by the schema (Zod and Valibot issues
+// carry a message, a path and more)
+interface ValidationIssue {
+  message: string;
+  [key: string]: unknown;
+}
+
+// Thrown by validate() when the value does not match the schema. The schema's
+// own error, if any, is kept as `cause`
+class GluifyValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], cause?: unknown) {
+    super(`Validation failed: ${issues.map(issue => issue.message).join('; ')}`, { cause });
+    this.name = 'GluifyValidationError';
+    this.issues = issues;
+  }
+}
+
+// Issues reported by a schema error - its `issues` list when it has one, else its message
+function validationIssues(error: unknown): ValidationIssue[] {
+  const issues = (error as { issues?: unknown } | null)?.issues;
+  if (!Array.isArray(issues)) {
+    return [{ message: error instanceof Error ? error.message : String(error) }];
+  }
+  return issues.map(issue =>
+    typeof issue?.message === 'string' ? issue : { message: String(issue) }
+  );
+}
+
+// Any error constructor, used by catch() to filter errors by class
+type ErrorClass<E extends Error> = abstract new (...args: never[]) => E;
+
+// Errors as seen by catch() predicates - allows checking ad-hoc fields like `code`
+type ErrorLike = Error & { [key: string]: unknown };
+
+// Error type seen by a catch() handler - narrowed when the predicate is a type guard
+type CaughtError<P> = P extends (error: Error) => error is (infer E extends Error) ? E : ErrorLike;
+
+// Distinguish an error class from a predicate function (both are functions at runtime)
+function isErrorClass(fn: unknown): fn is ErrorClass<Error> {
+  return fn === Error || (typeof fn === 'function' && fn.prototype instanceof Error);
+}
+
+// Outcome of runSafe() / runSafeAsync(): either the final value, or the error
+// that escaped the pipeline together with the index of the step that raised it
+// (-1 when the initial function threw) and that step's name, if it has one
+type GluifyResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: Error; step: number; name?: string };
+
+// Internal state threaded through a single execution of the pipeline
+interface ExecutionState {
+  result: unknown;
+  error: Error | null;
+  step: number;
+  // Input of the step that raised the pending error
+  input: unknown;
+}
+
+// Record an error raised by the step at `step` while processing `input`
+function fail(state: ExecutionState, error: unknown, step: number, input: unknown): void {
+  state.error = error as Error;
+  state.step = step;
+  state.input = input;
+}
+
+// Convert a finished execution into a GluifyResult
+function toResult<T>(state: ExecutionState, name?: string): GluifyResult<T> {
+  if (state.error) {
+    return name === undefined
+      ? { ok: false, error: state.error, step: state.step }
+      : { ok: false, error: state.error, step: state.step, name };
+  }
+  return { ok: true, value: state.result as T };
+}
+
+// Operation of all() / allWithContext(): run every branch on the value and join
+// the results like the branches are keyed, going async only when a branch did
+function forkJoin<V>(
+  branches: ContextBranchFunction<V>[] | Record<string, ContextBranchFunction<V>>,
+  withContext: boolean
+): Operation {
+  const entries = Object.entries(branches);
+  const join = (results: unknown[]) =>
+    Array.isArray(branches) ? results : Object.fromEntries(entries.map(([key], i) => [key, results[i]]));
+  return (value: unknown, context: StepContext = {}) => {
+    const fork = (input: unknown) => {
+      const results = entries.map(([, fn]) =>
+        withContext ? fn(input as V, context) : (fn as BranchFunction<V>)(input as V)
+      );
+      return results.some(isPromiseLike) ? Promise.all(results).then(join) : join(results);
+    };
+    return isPromiseLike(value) ? Promise.resolve(value).then(fork) : fork(value);
+  };
+}
+
+// Copy an operation, keeping its markers, with different metadata
+function withMeta(op: Operation, meta: StepMeta): Operation {
+  const copy: Operation = (value: unknown, context?: StepContext) => op(value, context);
+  return Object.assign(copy, op, { __meta: meta });
+}
+
+// Create a segment marker. Like other markers it passes the value through
+function segmentMarker(segment: 'open' | 'close', kind: string, args: unknown[]): SegmentOperation {
+  const operation = ((value: unknown) => value) as SegmentOperation;
+  operation.__segment = segment;
+  operation.__meta = { kind, args };
+  return operation;
+}
+
+// JSON-friendly form of a step argument - functions become their name
+function serializeArg(arg: unknown): unknown {
+  return typeof arg === 'function' ? `[Function ${arg.name || 'anonymous'}]` : arg;
+}
+
+// Deliver an event to every listener. Tracing must never change the outcome
+// of a pipeline, so errors thrown by listeners are ignored
+function emitStepEvent(listeners: StepListener[], event: StepEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch {
+      // Ignore listener failures
+    }
+  }
+}
+
+class Gluify<T, In = never> {
+  // Listeners registered with Gluify.use(), notified by every pipeline
+  private static listeners = new Set<StepListener>();
+
+  // Register a global step listener (e.g. a logger or span collector)
+  // Returns a function that unregisters it
+  static use(listener: StepListener): () => void {
+    Gluify.listeners.add(listener);
+    return () => {
+      Gluify.listeners.delete(listener);
+    };
+  }
+
   private operations: Operation[];
   private initialValue: unknown;
   private isLazy: boolean;
@@ -26,8 +953,26 @@ class Gluify<T> {
   }
 
   // Helper method to create a new Gluify with the same lazy state
-  private createNext<U>(newOperations: Operation[]): Gluify<U> {
-    return new Gluify<U>(this.initialValue, newOperations, this.isLazy, this.lazyInitializer);
+  private createNext<U>(newOperations: Operation[]): Gluify<U, In> {
+    return new Gluify<U, In>(this.initialValue, newOperations, this.isLazy, this.lazyInitializer);
+  }
+
+  // Append an operation, recording which operator created it and with which
+  // arguments. Functions passed to pipe()/pipeAsync() lend their name to the step
+  private addStep<U>(operation: Operation, kind: string, args: unknown[]): Gluify<U, In> {
+    const name = (kind === 'pipe' || kind === 'pipeAsync') && typeof args[0] === 'function'
+      ? args[0].name || undefined
+      : undefined;
+    operation.__meta = name === undefined ? { kind, args } : { kind, name, args };
+    if (sideEffectKinds.has(kind)) {
+      operation.__meta.sideEffect = true;
+    }
+    return this.createNext<U>([...this.operations, operation]);
+  }
+
+  // Name of the step at `index`, if it has one
+  private stepName(index: number): string | undefined {
+    return this.operations[index]?.__meta?.name;
   }
 
   // Type guard for error handler operations
@@ -35,56 +980,641 @@ class Gluify<T> {
     return (op as ErrorHandlerOperation).__isErrorHandler === true;
   }
 
+  // Type guard for retry operations
+  private isRetry(op: Operation): op is RetryOperation {
+    return (op as RetryOperation).__isRetry === true;
+  }
+
+  // Type guard for checkpoint operations
+  private isCheckpoint(op: Operation): op is CheckpointOperation {
+    return (op as CheckpointOperation).__isCheckpoint === true;
+  }
+
+  // Type guard for finally operations
+  private isFinally(op: Operation): op is FinallyOperation {
+    return (op as FinallyOperation).__isFinally === true;
+  }
+
+  // Type guard for segment operations
+  private isTemplate(op: Operation): op is TemplateOperation {
+    return (op as TemplateOperation).__template !== undefined;
+  }
+
+  private isOpenSegment(op: Operation): op is SegmentOperation {
+    return this.isSegment(op) && op.__segment === 'open';
+  }
+
+  private isSegment(op: Operation): op is SegmentOperation {
+    return (op as SegmentOperation).__segment !== undefined;
+  }
+
+  // For every operation, the index of the innermost segment it sits in
+  // (-Infinity outside of any segment). Error handlers only see errors raised after it
+  private segmentScopes(): number[] {
+    const open: number[] = [];
+    return this.operations.map((op, index) => {
+      const scope = open.length ? open[open.length - 1] : -Infinity;
+      if (this.isSegment(op)) {
+        if (op.__segment === 'open') open.push(index);
+        else open.pop();
+      }
+      return scope;
+    });
+  }
+
+  // Type guard for operations the executor may fuse
+  private isFusable(op: Operation): op is FusableOperation {
+    return (op as FusableOperation).__fusable !== undefined;
+  }
+
+  // Number of fusable operations in a row from `index`. A run stops before any
+  // step a retry() restarts from, as the retry needs that step's input
+  private fusableRun(index: number, retryStarts: Set<number>): number {
+    let end = index;
+    while (
+      end < this.operations.length &&
+      this.isFusable(this.operations[end]) &&
+      (end === index || !retryStarts.has(end))
+    ) {
+      end++;
+    }
+    return end - index;
+  }
+
+  // Steps the retry() operations of this chain restart from
+  private retryStarts(): Set<number> {
+    const starts = new Set<number>();
+    this.operations.forEach((op, index) => {
+      if (this.isRetry(op)) starts.add(this.retrySegmentStart(index));
+    });
+    return starts;
+  }
+
+  // Run the fusable operations from `index` as one step over the array in
+  // `state`, returning how many were consumed (0 when there is nothing to fuse)
+  private fuse(index: number, state: ExecutionState, retryStarts: Set<number>): number {
+    const run = this.fusableRun(index, retryStarts);
+    if (run < 2 || !Array.isArray(state.result)) return 0;
+    const stages = (this.operations.slice(index, index + run) as FusableOperation[]).map(op => op.__fusable);
+    const outcome = runFused(stages, state.result);
+    if ('error' in outcome) {
+      fail(state, outcome.error, index + outcome.step, undefined);
+    } else {
+      state.result = outcome.value;
+    }
+    return run;
+  }
+
+  // Type guard for timeout operations
+  private isTimeout(op: Operation): op is TimeoutOperation {
+    return (op as TimeoutOperation).__isTimeout === true;
+  }
+
+  // Global listeners followed by the one passed to this run
+  private stepListeners(onStep?: StepListener): StepListener[] {
+    return onStep ? [...Gluify.listeners, onStep] : [...Gluify.listeners];
+  }
+
+  // Fields shared by every event of one step
+  private stepEventBase(index: number, input: unknown): Pick<StepEvent, 'index' | 'name' | 'input'> {
+    const name = this.stepName(index);
+    return name === undefined ? { index, input } : { index, name, input };
+  }
+
+  // Run a single step, emitting start/end/error events around it
+  private traced(listeners: StepListener[], index: number, input: unknown, run: () => unknown): unknown {
+    if (listeners.length === 0) return run();
+    const step = this.stepEventBase(index, input);
+    emitStepEvent(listeners, { type: 'start', ...step });
+    const startedAt = performance.now();
+    try {
+      const output = run();
+      emitStepEvent(listeners, { type: 'end', ...step, output, duration: performance.now() - startedAt });
+      return output;
+    } catch (e) {
+      emitStepEvent(listeners, { type: 'error', ...step, error: e as Error, duration: performance.now() - startedAt });
+      throw e;
+    }
+  }
+
+  // Async counterpart of traced() - the step's duration includes awaiting its result
+  private async tracedAsync(listeners: StepListener[], index: number, input: unknown, run: () => unknown): Promise<unknown> {
+    if (listeners.length === 0) return run();
+    const step = this.stepEventBase(index, input);
+    emitStepEvent(listeners, { type: 'start', ...step });
+    const startedAt = performance.now();
+    try {
+      const output = await run();
+      emitStepEvent(listeners, { type: 'end', ...step, output, duration: performance.now() - startedAt });
+      return output;
+    } catch (e) {
+      emitStepEvent(listeners, { type: 'error', ...step, error: e as Error, duration: performance.now() - startedAt });
+      throw e;
+    }
+  }
+
+  // Run the lazy initializer, or hand back the initial value
+  private initialize(): unknown {
+    return this.isLazy && this.lazyInitializer
+      ? this.lazyInitializer()
+      : this.initialValue;
+  }
+
+  // Find where the segment guarded by the retry operation at `index` starts:
+  // right after the closest checkpoint, or else the closest real step before it
+  // (-1 means the lazy initializer). Neither is looked for outside an open segment
+  private retrySegmentStart(index: number): number {
+    for (let i = index - 1; i >= 0; i--) {
+      const op = this.operations[i];
+      if (this.isCheckpoint(op)) return i + 1;
+      if (this.isRetry(op) || this.isOpenSegment(op)) break;
+    }
+    return this.previousStep(index);
+  }
+
+  // Index of the closest real step before `index`, skipping error handlers and
+  // markers like retry(), timeout() or finally() (-1 means the lazy initializer)
+  private previousStep(index: number): number {
+    for (let i = index - 1; i >= 0; i--) {
+      const op = this.operations[i];
+      // Don't look outside an open segment - at its start, the segment marker is
+      // the previous step, so a retry() or timeout() there has nothing to act on
+      if (this.isOpenSegment(op)) return i;
+      const marker =
+        this.isRetry(op) || this.isCheckpoint(op) || this.isTimeout(op) || this.isFinally(op) || this.isSegment(op);
+      if (!this.isErrorHandler(op) && !marker) return i;
+    }
+    return -1;
+  }
+
+  // executeAsync(), sharing the state of an earlier successful run stored under
+  // the same key when runAsync({ cache }) is set. Failed runs are not kept
+  private async cachedExecuteAsync(options: RunAsyncOptions): Promise<ExecutionState> {
+    const { cache } = options;
+    if (!cache) return this.executeAsync(options);
+    let store = cache.store ?? runCaches.get(this.operations);
+    if (!store) {
+      store = new LRUCache();
+      runCaches.set(this.operations, store);
+    }
+    const key = 'key' in cache ? cache.key : this.initialValue;
+    let pending = store.get(key) as Promise<ExecutionState> | undefined;
+    if (!pending) {
+      const stored = this.executeAsync(options);
+      pending = stored;
+      store.set(key, stored, cache.ttl);
+      stored.then(state => {
+        if (state.error && store.get(key) === stored) store.delete(key);
+      });
+    }
+    // Copy, as callers may replace the error
+    return { ...(await pending) };
+  }
+
+  // Collect the per-step timeouts, pipeline deadline and signal for one runAsync() call
+  private executionLimits({ timeout, signal }: RunAsyncOptions, deadline?: number): ExecutionLimits {
+    const steps = new Map<number, number>();
+    this.operations.forEach((op, index) => {
+      if (this.isTimeout(op)) {
+        steps.set(this.previousStep(index), op.__ms);
+      }
+    });
+    return {
+      steps,
+      timeout,
+      deadline: deadline ?? (timeout === undefined ? undefined : Date.now() + timeout),
+      signal,
+    };
+  }
+
+  // Throw if the pipeline deadline has already passed
+  private checkDeadline(limits: ExecutionLimits): void {
+    if (limits.deadline !== undefined && limits.deadline <= Date.now()) {
+      throw new GluifyTimeoutError(`Pipeline timed out after ${limits.timeout}ms`, limits.timeout as number);
+    }
+  }
+
+  // Bound a pending step result by its own timeout and the pipeline deadline,
+  // whichever expires first, and by the abort signal. Plain values pass through untouched
+  private bounded(value: unknown, index: number, limits: ExecutionLimits): unknown {
+    const pending = this.withinDeadline(value, index, limits);
+    return limits.signal && isPromiseLike(pending) ? withAbort(pending, limits.signal) : pending;
+  }
+
+  // Bound a pending result by the step timeout and the pipeline deadline only
+  private withinDeadline(value: unknown, index: number, limits: ExecutionLimits): unknown {
+    if (!isPromiseLike(value)) return value;
+    let pending: PromiseLike<unknown> = value;
+    const stepTimeout = limits.steps.get(index);
+    const remaining = limits.deadline === undefined ? Infinity : Math.max(limits.deadline - Date.now(), 0);
+    if (stepTimeout !== undefined && stepTimeout <= remaining) {
+      const step = index === -1 ? 'Initial function' : `Step ${index}`;
+      pending = withTimeout(pending, stepTimeout, () => new GluifyTimeoutError(`${step} timed out after ${stepTimeout}ms`, stepTimeout));
+    } else if (remaining !== Infinity) {
+      pending = withTimeout(pending, remaining, () => new GluifyTimeoutError(`Pipeline timed out after ${limits.timeout}ms`, limits.timeout as number));
+    }
+    return pending;
+  }
+
+  // Whether the retry operation at `index` should re-run its segment, given
+  // the pending error and how many tries were already made
+  private shouldRetry(index: number, op: RetryOperation, state: ExecutionState, attempt: number): boolean {
+    const { attempts, retryIf } = op.__options;
+    return state.error !== null
+      && state.step >= this.retrySegmentStart(index)
+      && attempt < attempts
+      && (!retryIf || retryIf(state.error, attempt));
+  }
+
   // The pipe method is generic:
   // - `U` is the type of the output of the function `fn`
   // - `Args` is a tuple type for any additional arguments passed to `pipe`
+  // A flow() template runs as a single step, like `.pipe(template.toFunction())` -
+  // or like toAsyncFunction() under runAsync(), with the run's signal and deadline
+  pipe<U>(template: Gluify<U, T>): Gluify<U, In>;
+  pipe<U, Args extends unknown[]>(fn: PipeFunction<T, U, Args>, ...args: Args): Gluify<U, In>;
   pipe<U, Args extends unknown[]>(
-    fn: PipeFunction<T, U, Args>,
+    fn: PipeFunction<T, U, Args> | Gluify<U, T>,
     ...args: Args
-  ): Gluify<U> {
+  ): Gluify<U, In> {
+    if (fn instanceof Gluify) {
+      if (fn.isLazy) {
+        throw new Error('pipe() needs a function or a chain started with flow()');
+      }
+      const template = fn.toFunction();
+      const operation: TemplateOperation = Object.assign((value: unknown) => template(value as T), {
+        __template: fn as Gluify<unknown, unknown>,
+      });
+      return this.addStep<U>(operation, 'pipe', [fn]);
+    }
     // Don't execute, just store the operation
     const operation: Operation = (value: unknown) => fn(value as T, ...args);
-    return this.createNext<U>([...this.operations, operation]);
+    return this.addStep<U>(operation, 'pipe', [fn, ...args]);
   }
 
   // Async pipe - awaits promises before piping to handle async functions in the chain
   // If the current value is a Promise, await it first, then apply the function
-  pipeAsync<U, Args extends unknown[]>(
-    fn: PipeFunction<Awaited<T>, U, Args>,
-    ...args: Args
-  ): Gluify<U> {
+  pipeAsync<U, Args extends unknown[]>(fn: PipeFunction<Awaited<T>, U, Args>, ...args: Args): Gluify<U, In> {
     const operation: Operation = async (value: unknown) => {
       // If value is a Promise, await it first
       const resolvedValue = value instanceof Promise ? await value : value;
       return fn(resolvedValue as Awaited<T>, ...args);
     };
-    return this.createNext<U>([...this.operations, operation]);
+    return this.addStep<U>(operation, 'pipeAsync', [fn, ...args]);
+  }
+
+  // Like pipeAsync, but `fn` also receives the StepContext after `args`,
+  // e.g. `.pipeAsyncWithContext((url, ctx) => fetch(url, { signal: ctx.signal }))`
+  pipeAsyncWithContext<U, Args extends unknown[]>(
+    fn: (value: Awaited<T>, ...args: [...Args, StepContext]) => U,
+    ...args: Args
+  ): Gluify<U, In> {
+    const operation: Operation = async (value: unknown, context: StepContext = {}) => {
+      const resolvedValue = value instanceof Promise ? await value : value;
+      return fn(resolvedValue as Awaited<T>, ...args, context);
+    };
+    return this.addStep<U>(operation, 'pipeAsyncWithContext', [fn, ...args]);
+  }
+
+  // Splice the operations of another chain into this one as a segment,
+  // so its catch() handlers only apply to errors raised inside it.
+  // A chain started with gluify() is spliced without its initializer -
+  // its first step receives this chain's value instead
+  through<U>(template: Gluify<U, T>): Gluify<U, In>;
+  through<U>(chain: Gluify<U>): Gluify<U, In>;
+  through<U>(chain: Gluify<U, T> | Gluify<U>): Gluify<U, In> {
+    const open = segmentMarker('open', 'through', [chain]);
+    const close = segmentMarker('close', 'closeSegment', []);
+    return this.createNext<U>([...this.operations, open, ...chain.operations, close]);
+  }
+
+  // Open a segment: catch() handlers until the matching closeSegment() only
+  // handle errors raised inside the segment
+  openSegment(): Gluify<T, In> {
+    return this.createNext<T>([...this.operations, segmentMarker('open', 'openSegment', [])]);
+  }
+
+  // Close the innermost open segment
+  closeSegment(): Gluify<T, In> {
+    const depth = this.operations.reduce(
+      (open, op) => (this.isSegment(op) ? open + (op.__segment === 'open' ? 1 : -1) : open),
+      0
+    );
+    if (depth === 0) {
+      throw new Error('closeSegment() must follow openSegment()');
+    }
+    return this.createNext<T>([...this.operations, segmentMarker('close', 'closeSegment', [])]);
+  }
+
+  // Fork/join - run several functions on the current value concurrently and join
+  // their results into an object (for a record of functions) or a tuple (for an array)
+  all<B extends BranchFunction<Awaited<T>>[] | []>(branches: B): Gluify<BranchResults<B>, In>;
+  all<B extends Record<string, BranchFunction<Awaited<T>>>>(branches: B): Gluify<BranchResults<B>, In>;
+  all(branches: BranchFunction<Awaited<T>>[] | Record<string, BranchFunction<Awaited<T>>>): Gluify<unknown, In> {
+    return this.addStep<unknown>(forkJoin(branches, false), 'all', [branches]);
+  }
+
+  // Like all(), but every branch also receives the StepContext
+  allWithContext<B extends ContextBranchFunction<Awaited<T>>[] | []>(branches: B): Gluify<BranchResults<B>, In>;
+  allWithContext<B extends Record<string, ContextBranchFunction<Awaited<T>>>>(branches: B): Gluify<BranchResults<B>, In>;
+  allWithContext(
+    branches: ContextBranchFunction<Awaited<T>>[] | Record<string, ContextBranchFunction<Awaited<T>>>
+  ): Gluify<unknown, In> {
+    return this.addStep<unknown>(forkJoin(branches, true), 'allWithContext', [branches]);
+  }
+
+  // Check the value against a schema (Zod, Valibot or anything with parse() /
+  // safeParse()), continuing with the schema's output. Invalid values throw a
+  // GluifyValidationError listing the issues
+  validate<Out>(schema: Schema<Out>): Gluify<T extends PromiseLike<unknown> ? Promise<Out> : Out, In> {
+    const check = (value: unknown) => {
+      if ('safeParse' in schema) {
+        const result = schema.safeParse(value);
+        if (!result.success) {
+          throw new GluifyValidationError(validationIssues(result.error), result.error);
+        }
+        return result.data;
+      }
+      try {
+        return schema.parse(value);
+      } catch (e) {
+        throw new GluifyValidationError(validationIssues(e), e);
+      }
+    };
+    const operation: Operation = (value: unknown) =>
+      isPromiseLike(value) ? Promise.resolve(value).then(check) : check(value);
+    return this.addStep(operation, 'validate', [schema]);
+  }
+
+  // Name the previous step - shown by describe(), tracing events and runSafe() failures
+  named(name: string): Gluify<T, In> {
+    const last = this.operations[this.operations.length - 1];
+    if (!last) {
+      throw new Error('named() must follow the step it names');
+    }
+    const meta = last.__meta as StepMeta;
+    return this.createNext<T>([...this.operations.slice(0, -1), withMeta(last, { ...meta, name })]);
+  }
+
+  // Cache the results of the previous step - or of the initial function - by
+  // input, so later runs with the same input skip it. Rejected promises are not kept
+  memoize(options: MemoizeOptions = {}): Gluify<T, In> {
+    const index = this.previousStep(this.operations.length);
+    if (index === -1) {
+      if (!this.isLazy || !this.lazyInitializer) {
+        throw new Error('memoize() must follow a step or the initial function');
+      }
+      const initializer = memoized(this.lazyInitializer, options);
+      // A copy, so this chain doesn't share the original's runAsync({ cache }) store
+      return new Gluify<T, In>(this.initialValue, [...this.operations], true, () => initializer(undefined));
+    }
+    const op = this.operations[index];
+    const operations = [...this.operations];
+    operations[index] = Object.assign(memoized(op, options), { __meta: op.__meta });
+    return this.createNext<T>(operations);
+  }
+
+  // Flag the previous step as a side effect, so explain() skips it
+  sideEffect(): Gluify<T, In> {
+    const last = this.operations[this.operations.length - 1];
+    if (!last) {
+      throw new Error('sideEffect() must follow the step it flags');
+    }
+    const meta = last.__meta as StepMeta;
+    return this.createNext<T>([...this.operations.slice(0, -1), withMeta(last, { ...meta, sideEffect: true })]);
+  }
+
+  // Describe the chain as an ordered list of steps, without running it
+  describe(): StepDescriptor[] {
+    return this.operations.map((op, index) => ({ index, ...(op.__meta as StepMeta) }));
+  }
+
+  // Serializable form of describe(), used by JSON.stringify(pipeline)
+  toJSON(): StepDescriptor[] {
+    return this.describe().map(step => ({ ...step, args: step.args.map(serializeArg) }));
   }
 
   // Synchronous execution - for pure sync chains
-  run(): T {
-    let result: unknown;
-    let error: Error | null = null;
+  run(options: RunOptions = {}): T {
+    const state = this.execute(options);
 
-    // Execute lazy initializer if needed
-    try {
-      result = this.isLazy && this.lazyInitializer
-        ? this.lazyInitializer()
-        : this.initialValue;
-    } catch (e) {
-      error = e as Error;
+    // If there's still an error at the end, throw it
+    if (state.error) {
+      throw this.escapingError(state, options);
     }
 
-    // Execute operations in sequence
-    for (const op of this.operations) {
-      if (error) {
-        // If there's an error, look for error handler
-        if (this.isErrorHandler(op)) {
+    return state.result as T;
+  }
+
+  // Asynchronous execution - handles both sync and async functions
+  async runAsync(options: RunAsyncOptions = {}): Promise<Awaited<T>> {
+    const state = await this.cachedExecuteAsync(options);
+
+    // If there's still an error at the end, throw it
+    if (state.error) {
+      throw this.escapingError(state, options);
+    }
+
+    return state.result as Awaited<T>;
+  }
+
+  // Safe synchronous execution - never throws, returns a Result instead
+  runSafe(options: RunOptions = {}): GluifyResult<T> {
+    const state = this.execute(options);
+    if (state.error) {
+      state.error = this.escapingError(state, options);
+    }
+    return toResult<T>(state, this.stepName(state.step));
+  }
+
+  // Safe asynchronous execution - never rejects, resolves to a Result instead
+  async runSafeAsync(options: RunAsyncOptions = {}): Promise<GluifyResult<Awaited<T>>> {
+    const state = await this.cachedExecuteAsync(options);
+    if (state.error) {
+      state.error = this.escapingError(state, options);
+    }
+    return toResult<Awaited<T>>(state, this.stepName(state.step));
+  }
+
+  // Dry run - run the chain, starting from `sample` instead of the initial function
+  // when given, and report every step's input, output or error, which error handlers
+  // fired and which branches were taken. Side-effect steps are skipped
+  explain(...sample: [] | [unknown]): Explanation<T> {
+    const { pipeline, onStep, context, report } = this.explainer(sample);
+    const state = pipeline.execute({ onStep }, context);
+    return { steps: report(), result: toResult<T>(state, this.stepName(state.step)) };
+  }
+
+  // Async counterpart of explain(), running the chain with runAsync() semantics
+  async explainAsync(...sample: [] | [unknown]): Promise<Explanation<Awaited<T>>> {
+    const { pipeline, onStep, context, report } = this.explainer(sample);
+    const state = await pipeline.executeAsync({ onStep }, context);
+    return { steps: report(), result: toResult<Awaited<T>>(state, this.stepName(state.step)) };
+  }
+
+  // Shared setup of explain() and explainAsync(): a copy of the chain with side
+  // effects replaced by pass-through steps, plus the listeners building the report
+  private explainer(sample: [] | [unknown]) {
+    const operations = this.operations.map(op =>
+      op.__meta?.sideEffect ? Object.assign((value: unknown) => value, { __meta: op.__meta }) : op
+    );
+    const pipeline = sample.length
+      ? new Gluify<T, In>(sample[0], operations)
+      : new Gluify<T, In>(this.initialValue, operations, this.isLazy, this.lazyInitializer);
+
+    // Last event and branch per step - retried steps report their final try
+    const events = new Map<number, StepEvent>();
+    const branches = new Map<number, string>();
+    let current = -1;
+    const onStep = (event: StepEvent) => {
+      if (event.type === 'start') current = event.index;
+      events.set(event.index, event);
+    };
+    const context: ExplainContext = { [branchRecorder]: branch => branches.set(current, branch) };
+
+    const report = (): ExplainStep[] => {
+      const steps: ExplainStep[] = [{ index: -1, kind: 'initial', args: [], ...this.explainRow(events.get(-1), false) }];
+      this.operations.forEach((op, index) => {
+        const marker = this.isRetry(op) || this.isCheckpoint(op) || this.isTimeout(op) || this.isSegment(op);
+        if (marker) return;
+        const row: ExplainStep = {
+          index,
+          ...(op.__meta as StepMeta),
+          ...this.explainRow(op.__meta?.sideEffect ? undefined : events.get(index), this.isErrorHandler(op)),
+        };
+        const branch = branches.get(index);
+        steps.push(branch === undefined ? row : { ...row, branch });
+      });
+      return steps;
+    };
+
+    return { pipeline, onStep, context, report };
+  }
+
+  // Status, input and output or error of a step, from its last tracing event
+  private explainRow(event: StepEvent | undefined, handler: boolean): Pick<ExplainStep, 'status' | 'input' | 'output' | 'error'> {
+    if (!event || event.type === 'start') return { status: 'skipped' };
+    if (event.type === 'error') return { status: 'failed', input: event.input, error: event.error };
+    return { status: handler ? 'handled' : 'ok', input: event.input, output: event.output };
+  }
+
+  // Turn a chain started with flow() into a reusable function that runs the
+  // chain's operations on each input it is called with
+  toFunction(options: RunOptions = {}): (input: In) => T {
+    if (this.isLazy) {
+      throw new Error('toFunction() needs a chain started with flow()');
+    }
+    return (input: In) => new Gluify<T, In>(input, this.operations).run(options);
+  }
+
+  // Async counterpart of toFunction() - each call runs the operations with runAsync()
+  toAsyncFunction(options: RunAsyncOptions = {}): (input: In) => Promise<Awaited<T>> {
+    if (this.isLazy) {
+      throw new Error('toAsyncFunction() needs a chain started with flow()');
+    }
+    return (input: In) => new Gluify<T, In>(input, this.operations).runAsync(options);
+  }
+
+  // The error a run reports for its pending error - wrapped in a GluifyStepError
+  // in wrapErrors mode, except for abort reasons which callers need to recognize
+  private escapingError(state: ExecutionState, options: RunAsyncOptions): Error {
+    const error = state.error as Error;
+    if (!options.wrapErrors || (options.signal?.aborted && error === options.signal.reason)) {
+      return error;
+    }
+    let input = state.input;
+    if (options.redactInput) {
+      try {
+        input = options.redactInput(state.input);
+      } catch {
+        // Record no input rather than the unredacted one - runSafe() must not throw
+        input = undefined;
+      }
+    }
+    return new GluifyStepError(error, state.step, this.operations[state.step]?.__meta, input);
+  }
+
+  // Runs the lazy initializer and every operation, tracking the pending error
+  // and the index of the step that raised it (-1 for the initializer)
+  private execute(options: RunOptions, context: StepContext = {}): ExecutionState {
+    const state: ExecutionState = { result: undefined, error: null, step: -1, input: undefined };
+    const listeners = this.stepListeners(options.onStep);
+    // Input of each step, so a retry can restart from it
+    const inputs: unknown[] = [];
+    // Tries made so far, per retry operation
+    const attempts = new Map<number, number>();
+    // Enclosing segment of each operation, scoping error handlers
+    const scopes = this.segmentScopes();
+    // Fuse array steps only when nothing needs to observe them one by one
+    const fusion = listeners.length === 0 && !options.wrapErrors;
+    const retryStarts = this.retryStarts();
+
+    // Index -1 is the lazy initializer, so a retry can jump back to it
+    for (let index = -1; index < this.operations.length; index++) {
+      if (index === -1) {
+        // Execute lazy initializer if needed
+        try {
+          state.result = this.traced(listeners, index, undefined, () => this.initialize());
+        } catch (e) {
+          fail(state, e, index, undefined);
+        }
+        continue;
+      }
+
+      const op = this.operations[index];
+      if (!state.error) {
+        inputs[index] = state.result;
+      }
+
+      if (this.isRetry(op)) {
+        const attempt = attempts.get(index) ?? 1;
+        if (this.shouldRetry(index, op, state, attempt)) {
+          // Delays need a timer - sync runs retry immediately
+          attempts.set(index, attempt + 1);
+          // Restart the segment with its original input
+          const start = this.retrySegmentStart(index);
+          state.error = null;
+          state.result = start === -1 ? undefined : inputs[start];
+          index = start - 1;
+        } else if (!state.error) {
+          // Segment succeeded, a later jump back here gets a fresh budget
+          attempts.delete(index);
+        }
+        continue;
+      }
+
+      if (this.isTimeout(op) || this.isCheckpoint(op) || this.isSegment(op)) {
+        // Markers only affect how other steps run
+        continue;
+      }
+
+      if (this.isFinally(op)) {
+        // Cleanup runs whether or not an error is pending and never changes the value
+        try {
+          const cleanup = this.traced(listeners, index, state.result, () => op.__cleanup());
+          if (isPromiseLike(cleanup)) {
+            // run() can't wait for async cleanup - keep its rejection from going unhandled
+            Promise.resolve(cleanup).catch(() => {});
+          }
+        } catch (e) {
+          fail(state, e, index, state.result);
+        }
+        continue;
+      }
+
+      if (state.error) {
+        // If there's an error, look for an error handler - inside a segment,
+        // only for errors raised in that segment
+        if (this.isErrorHandler(op) && state.step > scopes[index]) {
+          const error = state.error;
           try {
-            result = op.__handler(error);
-            error = null; // Error handled, continue with pipeline
+            // Only handle errors this handler was filtered for
+            if (op.__matches(error)) {
+              state.result = this.traced(listeners, index, error, () => op.__handler(error));
+              state.error = null; // Error handled, continue with pipeline
+            }
           } catch (e) {
-            error = e as Error; // Error in handler, continue looking for next handler
+            fail(state, e, index, error); // Error in handler, continue looking for next handler
           }
         }
         // Skip non-error-handler operations when there's an error
@@ -94,46 +1624,129 @@ class Gluify<T> {
           // Skip error handlers when there's no error
           continue;
         }
+        const fused = fusion && this.isFusable(op) ? this.fuse(index, state, retryStarts) : 0;
+        if (fused > 0) {
+          // Skip the operations that ran fused
+          index += fused - 1;
+          continue;
+        }
+        try {
+          const input = state.result;
+          state.result = this.traced(listeners, index, input, () => op(input, context));
+        } catch (e) {
+          fail(state, e, index, inputs[index]);
+        }
+      }
+    }
+
+    return state;
+  }
+
+  // Async counterpart of execute() - awaits the initializer, operations, handlers and
+  // retry delays, bounding steps by their timeout(), the pipeline deadline and the signal
+  private async executeAsync(options: RunAsyncOptions, extraContext: StepContext = {}, deadline?: number): Promise<ExecutionState> {
+    const state: ExecutionState = { result: undefined, error: null, step: -1, input: undefined };
+    const limits = this.executionLimits(options, deadline);
+    const listeners = this.stepListeners(options.onStep);
+    // Input of each step, so a retry can restart from it
+    const inputs: unknown[] = [];
+    // Tries made so far, per retry operation
+    const attempts = new Map<number, number>();
+    // Enclosing segment of each operation, scoping error handlers
+    const scopes = this.segmentScopes();
+    // Fuse array steps only when nothing needs to observe them one by one -
+    // the signal and deadline are checked between steps
+    const fusion = listeners.length === 0 && !options.wrapErrors && !options.signal && options.timeout === undefined;
+    const retryStarts = this.retryStarts();
+    const context: StepContext = { ...extraContext, signal: options.signal };
+    let aborted = false;
+
+    // Index -1 is the lazy initializer, so a retry can jump back to it
+    for (let index = -1; index < this.operations.length; index++) {
+      if (options.signal?.aborted) {
+        // Stop right away - no further steps or handlers run once aborted,
+        // only finally() cleanups
+        if (!aborted) {
+          aborted = true;
+          const reason = abortReason(options.signal);
+          if (state.error !== reason) {
+            fail(state, reason, index, state.result);
+          }
+        }
+        const op = this.operations[index];
+        if (op && this.isFinally(op)) {
+          // Start the cleanup without waiting for it - the run settles as soon as
+          // the signal aborts, and cleanup errors keep the abort reason
+          this.tracedAsync(listeners, index, state.result, () => op.__cleanup()).catch(() => {});
+        }
+        continue;
+      }
+
+      if (index === -1) {
+        // Execute lazy initializer if needed
         try {
-          result = op(result);
+          state.result = await this.tracedAsync(listeners, index, undefined, () => this.bounded(this.initialize(), index, limits));
         } catch (e) {
-          error = e as Error;
+          fail(state, e, index, undefined);
         }
+        continue;
       }
-    }
 
-    // If there's still an error at the end, throw it
-    if (error) {
-      throw error;
-    }
+      const op = this.operations[index];
+      if (!state.error) {
+        inputs[index] = state.result;
+      }
 
-    return result as T;
-  }
+      if (this.isRetry(op)) {
+        const attempt = attempts.get(index) ?? 1;
+        if (this.shouldRetry(index, op, state, attempt)) {
+          try {
+            await this.bounded(op.__options.clock.sleep(retryDelay(op.__options, attempt)), index, limits);
+          } catch (e) {
+            fail(state, e, index, inputs[index]); // Deadline passed while waiting
+            continue;
+          }
+          attempts.set(index, attempt + 1);
+          // Restart the segment with its original input
+          const start = this.retrySegmentStart(index);
+          state.error = null;
+          state.result = start === -1 ? undefined : inputs[start];
+          index = start - 1;
+        } else if (!state.error) {
+          // Segment succeeded, a later jump back here gets a fresh budget
+          attempts.delete(index);
+        }
+        continue;
+      }
 
-  // Asynchronous execution - handles both sync and async functions
-  async runAsync(): Promise<Awaited<T>> {
-    let result: unknown;
-    let error: Error | null = null;
+      if (this.isTimeout(op) || this.isCheckpoint(op) || this.isSegment(op)) {
+        // Markers only affect how other steps run
+        continue;
+      }
 
-    // Execute lazy initializer if needed
-    try {
-      result = this.isLazy && this.lazyInitializer
-        ? await this.lazyInitializer()
-        : this.initialValue;
-    } catch (e) {
-      error = e as Error;
-    }
+      if (this.isFinally(op)) {
+        // Cleanup runs whether or not an error is pending and never changes the value
+        try {
+          await this.tracedAsync(listeners, index, state.result, () => this.bounded(op.__cleanup(), index, limits));
+        } catch (e) {
+          fail(state, e, index, state.result);
+        }
+        continue;
+      }
 
-    // Execute operations in sequence
-    for (const op of this.operations) {
-      if (error) {
-        // If there's an error, look for error handler
-        if (this.isErrorHandler(op)) {
+      if (state.error) {
+        // If there's an error, look for an error handler - inside a segment,
+        // only for errors raised in that segment
+        if (this.isErrorHandler(op) && state.step > scopes[index]) {
+          const error = state.error;
           try {
-            result = await op.__handler(error);
-            error = null; // Error handled, continue with pipeline
+            // Only handle errors this handler was filtered for
+            if (op.__matches(error)) {
+              state.result = await this.tracedAsync(listeners, index, error, () => this.bounded(op.__handler(error), index, limits));
+              state.error = null; // Error handled, continue with pipeline
+            }
           } catch (e) {
-            error = e as Error; // Error in handler, continue looking for next handler
+            fail(state, e, index, error); // Error in handler, continue looking for next handler
           }
         }
         // Skip non-error-handler operations when there's an error
@@ -143,57 +1756,173 @@ class Gluify<T> {
           // Skip error handlers when there's no error
           continue;
         }
+        const fused = fusion && this.isFusable(op) ? this.fuse(index, state, retryStarts) : 0;
+        if (fused > 0) {
+          // Skip the operations that ran fused
+          index += fused - 1;
+          continue;
+        }
         try {
-          result = await op(result);
+          this.checkDeadline(limits);
+          const input = state.result;
+          const step = this.isTemplate(op) ? () => this.runTemplateAsync(op.__template, input, context, limits) : () => op(input, context);
+          state.result = await this.tracedAsync(listeners, index, input, () => this.bounded(step(), index, limits));
         } catch (e) {
-          error = e as Error;
+          fail(state, e, index, inputs[index]);
         }
       }
     }
 
-    // If there's still an error at the end, throw it
-    if (error) {
-      throw error;
-    }
+    return state;
+  }
 
-    return result as Awaited<T>;
+  // Run a template passed to pipe() on `input` like toAsyncFunction() would, under
+  // the outer run's signal and deadline - its catch() handlers see async errors
+  private async runTemplateAsync(template: Gluify<unknown, unknown>, input: unknown, context: StepContext, limits: ExecutionLimits): Promise<unknown> {
+    const options = { signal: limits.signal, timeout: limits.timeout };
+    const state = await new Gluify(input, template.operations).executeAsync(options, context, limits.deadline);
+    if (state.error) {
+      throw state.error;
+    }
+    return state.result;
   }
 
-  tap(fn: (value: T) => void): Gluify<T> {
+  tap(fn: (value: T) => void): Gluify<T, In> {
     // Store tap operation without changing the value
     const operation: Operation = (value: unknown) => {
       fn(value as T);
       return value; // Return unchanged value
     };
-    return this.createNext<T>([...this.operations, operation]);
+    return this.addStep<T>(operation, 'tap', [fn]);
   }
 
   // Catch errors and provide a fallback value or recovery function
-  catch<U>(handler: (error: Error) => U): Gluify<T | U> {
+  // Pass an error class or predicate first to only catch matching errors -
+  // anything else keeps propagating to later handlers
+  catch<U>(handler: (error: Error) => U): Gluify<T | U, In>;
+  catch<P extends (error: ErrorLike) => boolean, U>(predicate: P, handler: (error: CaughtError<P>) => U): Gluify<T | U, In>;
+  catch<E extends Error, U>(errorClass: ErrorClass<E>, handler: (error: E) => U): Gluify<T | U, In>;
+  catch<U>(
+    filterOrHandler: ErrorClass<Error> | ((error: ErrorLike) => unknown),
+    handler?: (error: ErrorLike) => U
+  ): Gluify<T | U, In> {
     const operation = ((value: unknown) => {
       // This is a marker operation that the execution methods will use
       return value;
     }) as ErrorHandlerOperation;
     // Mark this operation as an error handler
     operation.__isErrorHandler = true;
-    operation.__handler = handler;
-    return this.createNext<T | U>([...this.operations, operation]);
+    if (handler === undefined) {
+      operation.__handler = filterOrHandler as (error: Error) => U;
+      operation.__matches = () => true;
+    } else {
+      operation.__handler = handler as (error: Error) => U;
+      operation.__matches = isErrorClass(filterOrHandler)
+        ? (error: Error) => error instanceof filterOrHandler
+        : (error: Error) => Boolean((filterOrHandler as (error: ErrorLike) => unknown)(error as ErrorLike));
+    }
+    return this.addStep<T | U>(operation, 'catch', handler === undefined ? [filterOrHandler] : [filterOrHandler, handler]);
   }
 
   // Recover from errors with a fallback value
-  recover(fallbackValue: T): Gluify<T> {
-    return this.catch(() => fallbackValue);
+  recover(fallbackValue: T): Gluify<T, In> {
+    const next = this.catch(() => fallbackValue);
+    // Describe the handler as recover() rather than catch()
+    next.operations[next.operations.length - 1].__meta = { kind: 'recover', args: [fallbackValue] };
+    return next;
+  }
+
+  // Run a cleanup function when the pipeline reaches this point, whether it
+  // succeeded so far or has a pending error. The value and the error are left
+  // untouched - unless the cleanup itself throws
+  finally(fn: () => unknown): Gluify<T, In> {
+    const operation = ((value: unknown) => value) as FinallyOperation;
+    operation.__isFinally = true;
+    operation.__cleanup = fn;
+    return this.addStep<T>(operation, 'finally', [fn]);
+  }
+
+  // Retry the previous step - or every step since the last checkpoint() - when it fails
+  // Delays are only awaited by runAsync(); run() retries immediately
+  retry(options: RetryOptions = {}): Gluify<T, In> {
+    const operation = ((value: unknown) => value) as RetryOperation;
+    operation.__isRetry = true;
+    operation.__options = {
+      attempts: options.attempts ?? 3,
+      delay: options.delay ?? 0,
+      backoff: options.backoff ?? 'fixed',
+      jitter: options.jitter ?? false,
+      retryIf: options.retryIf,
+      clock: options.clock ?? systemClock,
+    };
+    return this.addStep<T>(operation, 'retry', [options]);
+  }
+
+  // Bound the previous step to `ms` milliseconds during runAsync(), rejecting
+  // with a GluifyTimeoutError that later catch() handlers can intercept
+  timeout(ms: number): Gluify<T, In> {
+    const operation = ((value: unknown) => value) as TimeoutOperation;
+    operation.__isTimeout = true;
+    operation.__ms = ms;
+    return this.addStep<T>(operation, 'timeout', [ms]);
+  }
+
+  // Mark the start of a segment that the next retry() re-runs as a whole
+  checkpoint(): Gluify<T, In> {
+    const operation = ((value: unknown) => value) as CheckpointOperation;
+    operation.__isCheckpoint = true;
+    return this.addStep<T>(operation, 'checkpoint', []);
   }
 
   // Conditional execution - only run fn if predicate is true
-  when(predicate: (value: T) => boolean, fn: (value: T) => T): Gluify<T> {
-    const operation: Operation = (value: unknown) => {
-      if (predicate(value as T)) {
-        return fn(value as T);
+  when<P extends (value: T) => boolean>(predicate: P, fn: (value: Guarded<P, T>) => T): Gluify<T, In> {
+    const operation: Operation = (value: unknown, context?: StepContext) => {
+      const matched = predicate(value as T);
+      recordBranch(context, matched ? 'applied' : 'skipped');
+      return matched ? fn(value as Guarded<P, T>) : value;
+    };
+    return this.addStep<T>(operation, 'when', [predicate, fn]);
+  }
+
+  // If/else - run `onTrue` or `onFalse` depending on the predicate. The branches
+  // may return different types, and a type guard narrows each branch's input
+  branch<P extends (value: T) => boolean, A, B>(
+    predicate: P,
+    onTrue: (value: Guarded<P, T>) => A,
+    onFalse: (value: Unguarded<P, T>) => B
+  ): Gluify<A | B, In> {
+    const operation: Operation = (value: unknown, context?: StepContext) => {
+      const matched = predicate(value as T);
+      recordBranch(context, matched ? 'onTrue' : 'onFalse');
+      return matched ? onTrue(value as Guarded<P, T>) : onFalse(value as Unguarded<P, T>);
+    };
+    return this.addStep<A | B>(operation, 'branch', [predicate, onTrue, onFalse]);
+  }
+
+  // Switch - run the `then` of the first case whose predicate accepts the value,
+  // or `otherwise` when none does
+  match<C extends MatchCase<T, unknown>[], O>(cases: [...C], otherwise: (value: T) => O): Gluify<CaseResults<C> | O, In> {
+    const operation: Operation = (value: unknown, context?: StepContext) => {
+      const index = cases.findIndex(c => c.case(value as T));
+      recordBranch(context, index === -1 ? 'otherwise' : `case ${index}`);
+      return index === -1 ? otherwise(value as T) : cases[index].then(value as T);
+    };
+    return this.addStep<CaseResults<C> | O>(operation, 'match', [cases, otherwise]);
+  }
+
+  // Switch on the discriminant `key` of a union - each handler receives its narrowed variant.
+  // Every variant needs a handler
+  matchOn<K extends keyof T, H extends MatchHandlers<T, K>>(key: K, handlers: H): Gluify<HandlerResults<H>, In> {
+    const operation: Operation = (value: unknown, context?: StepContext) => {
+      const variant = (value as T)[key] as PropertyKey;
+      recordBranch(context, String(variant));
+      const handler = (handlers as Record<PropertyKey, (value: unknown) => unknown>)[variant];
+      if (!Object.hasOwn(handlers, variant)) {
+        throw new Error(`matchOn() has no handler for ${String(key)} "${String(variant)}"`);
       }
-      return value;
+      return handler(value);
     };
-    return this.createNext<T>([...this.operations, operation]);
+    return this.addStep<HandlerResults<H>>(operation, 'matchOn', [key, handlers]);
   }
 
   // ============================================
@@ -201,78 +1930,570 @@ class Gluify<T> {
   // ============================================
 
   // Map over array elements
-  map<U>(fn: T extends unknown[] ? (item: T[number], index: number) => U : never): Gluify<U[]> {
+  map<U>(fn: T extends unknown[] ? (item: T[number], index: number) => U : never): Gluify<U[], In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).map(fn as (item: unknown, index: number) => U);
-    return this.createNext<U[]>([...this.operations, operation]);
+    if (ignoresArray(fn)) {
+      (operation as FusableOperation).__fusable = { type: 'map', fn: fn as (item: unknown, index: number) => unknown };
+    }
+    return this.addStep<U[]>(operation, 'map', [fn]);
   }
 
   // Filter array elements
-  filter(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<T> {
+  // A type guard predicate narrows the element type
+  filter<S extends ArrayItem<T>>(predicate: T extends unknown[] ? (item: T[number], index: number) => item is S : never): Gluify<S[], In>;
+  filter(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<T, In>;
+  filter(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<unknown, In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).filter(predicate as (item: unknown, index: number) => boolean);
-    return this.createNext<T>([...this.operations, operation]);
+    if (ignoresArray(predicate)) {
+      (operation as FusableOperation).__fusable = { type: 'filter', fn: predicate as (item: unknown, index: number) => unknown };
+    }
+    return this.addStep<T>(operation, 'filter', [predicate]);
   }
 
   // Reduce array to a single value
   reduce<U>(
     fn: T extends unknown[] ? (acc: U, item: T[number], index: number) => U : never,
     initialValue: U
-  ): Gluify<U> {
+  ): Gluify<U, In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).reduce(fn as (acc: U, item: unknown, index: number) => U, initialValue);
-    return this.createNext<U>([...this.operations, operation]);
+    return this.addStep<U>(operation, 'reduce', [fn, initialValue]);
   }
 
   // Find first element matching predicate
-  find(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<T extends unknown[] ? T[number] | undefined : never> {
+  // A type guard predicate narrows the result
+  find<S extends ArrayItem<T>>(predicate: T extends unknown[] ? (item: T[number], index: number) => item is S : never): Gluify<S | undefined, In>;
+  find(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<T extends unknown[] ? T[number] | undefined : never, In>;
+  find(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<unknown, In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).find(predicate as (item: unknown, index: number) => boolean);
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'find', [predicate]);
   }
 
   // Check if some elements match predicate
-  some(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<boolean> {
+  some(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<boolean, In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).some(predicate as (item: unknown, index: number) => boolean);
-    return this.createNext<boolean>([...this.operations, operation]);
+    return this.addStep<boolean>(operation, 'some', [predicate]);
   }
 
   // Check if all elements match predicate
-  every(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<boolean> {
+  every(predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never): Gluify<boolean, In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).every(predicate as (item: unknown, index: number) => boolean);
-    return this.createNext<boolean>([...this.operations, operation]);
+    return this.addStep<boolean>(operation, 'every', [predicate]);
   }
 
   // Get first n elements
-  take(n: T extends unknown[] ? number : never): Gluify<T> {
+  take(n: T extends unknown[] ? number : never): Gluify<T, In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).slice(0, n as number);
-    return this.createNext<T>([...this.operations, operation]);
+    if (Number.isInteger(n) && (n as number) >= 0) {
+      (operation as FusableOperation).__fusable = { type: 'take', n: n as number };
+    }
+    return this.addStep<T>(operation, 'take', [n]);
   }
 
   // Skip first n elements
-  skip(n: T extends unknown[] ? number : never): Gluify<T> {
+  skip(n: T extends unknown[] ? number : never): Gluify<T, In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).slice(n as number);
-    return this.createNext<T>([...this.operations, operation]);
+    if (Number.isInteger(n) && (n as number) >= 0) {
+      (operation as FusableOperation).__fusable = { type: 'skip', n: n as number };
+    }
+    return this.addStep<T>(operation, 'skip', [n]);
   }
 
   // Sort array
-  sort(compareFn?: T extends unknown[] ? (a: T[number], b: T[number]) => number : never): Gluify<T> {
+  sort(compareFn?: T extends unknown[] ? (a: T[number], b: T[number]) => number : never): Gluify<T, In> {
     const operation: Operation = (arr: unknown) => [...(arr as unknown[])].sort(compareFn as ((a: unknown, b: unknown) => number) | undefined);
-    return this.createNext<T>([...this.operations, operation]);
+    return this.addStep<T>(operation, 'sort', compareFn === undefined ? [] : [compareFn]);
   }
 
   // Reverse array
-  reverse(): Gluify<T extends unknown[] ? T : never> {
+  reverse(): Gluify<T extends unknown[] ? T : never, In> {
     const operation: Operation = (arr: unknown) => [...(arr as unknown[])].reverse();
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'reverse', []);
   }
 
   // Flatten array one level
-  flat(): Gluify<T extends unknown[] ? unknown[] : never> {
+  flat(): Gluify<T extends unknown[] ? unknown[] : never, In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).flat();
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'flat', []);
   }
 
   // Get unique elements
-  unique(): Gluify<T extends unknown[] ? T : never> {
+  unique(): Gluify<T extends unknown[] ? T : never, In> {
     const operation: Operation = (arr: unknown) => Array.from(new Set(arr as unknown[]));
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'unique', []);
+  }
+
+  // Remove elements with duplicate keys, keeping the first of each
+  uniqueBy(by: T extends unknown[] ? KeySelector<T[number]> : never): Gluify<T extends unknown[] ? T : never, In> {
+    const key = keyFunction(by);
+    const operation: Operation = (arr: unknown) => uniqueByKey(arr as unknown[], key);
+    return this.addStep(operation, 'uniqueBy', [by]);
+  }
+
+  // Remove null, undefined and other falsy values
+  compact(): Gluify<T extends unknown[] ? Exclude<NonNullable<T[number]>, false | 0 | '' | 0n>[] : never, In> {
+    const operation: Operation = (arr: unknown) => (arr as unknown[]).filter(Boolean);
+    return this.addStep(operation, 'compact', []);
+  }
+
+  // ============================================
+  // Collection Utilities
+  // ============================================
+  // Keyed results are built on null-prototype objects, so keys like
+  // "__proto__" or "constructor" are stored like any other key
+
+  // Group array elements into arrays by key
+  groupBy<K extends PropertyKey>(
+    fn: T extends unknown[] ? (item: T[number], index: number) => K : never
+  ): Gluify<T extends unknown[] ? Record<K, T[number][]> : never, In> {
+    const operation: Operation = (arr: unknown) => {
+      const groups: Record<PropertyKey, unknown[]> = Object.create(null);
+      (arr as unknown[]).forEach((item, index) => {
+        const key = (fn as (item: unknown, index: number) => K)(item, index);
+        (groups[key] ??= []).push(item);
+      });
+      return groups;
+    };
+    return this.addStep(operation, 'groupBy', [fn]);
+  }
+
+  // Group array elements into a Map of arrays, keeping keys of any type in first-seen order
+  groupByMap<K>(
+    fn: T extends unknown[] ? (item: T[number], index: number) => K : never
+  ): Gluify<T extends unknown[] ? Map<K, T[number][]> : never, In> {
+    const operation: Operation = (arr: unknown) => {
+      const groups = new Map<K, unknown[]>();
+      (arr as unknown[]).forEach((item, index) => {
+        const key = (fn as (item: unknown, index: number) => K)(item, index);
+        const group = groups.get(key);
+        if (group) group.push(item);
+        else groups.set(key, [item]);
+      });
+      return groups;
+    };
+    return this.addStep(operation, 'groupByMap', [fn]);
+  }
+
+  // Index array elements by key - the last element with a key wins
+  keyBy<K extends PropertyKey>(
+    fn: T extends unknown[] ? (item: T[number], index: number) => K : never
+  ): Gluify<T extends unknown[] ? Record<K, T[number]> : never, In> {
+    const operation: Operation = (arr: unknown) => {
+      const keyed: Record<PropertyKey, unknown> = Object.create(null);
+      (arr as unknown[]).forEach((item, index) => {
+        keyed[(fn as (item: unknown, index: number) => K)(item, index)] = item;
+      });
+      return keyed;
+    };
+    return this.addStep(operation, 'keyBy', [fn]);
+  }
+
+  // Map each key to the position of its element - the last position wins
+  indexBy<K extends PropertyKey>(
+    fn: T extends unknown[] ? (item: T[number], index: number) => K : never
+  ): Gluify<T extends unknown[] ? Record<K, number> : never, In> {
+    const operation: Operation = (arr: unknown) => {
+      const positions: Record<PropertyKey, number> = Object.create(null);
+      (arr as unknown[]).forEach((item, index) => {
+        positions[(fn as (item: unknown, index: number) => K)(item, index)] = index;
+      });
+      return positions;
+    };
+    return this.addStep(operation, 'indexBy', [fn]);
+  }
+
+  // Count array elements by key
+  countBy<K extends PropertyKey>(
+    fn: T extends unknown[] ? (item: T[number], index: number) => K : never
+  ): Gluify<T extends unknown[] ? Record<K, number> : never, In> {
+    const operation: Operation = (arr: unknown) => {
+      const counts: Record<PropertyKey, number> = Object.create(null);
+      (arr as unknown[]).forEach((item, index) => {
+        const key = (fn as (item: unknown, index: number) => K)(item, index);
+        counts[key] = (counts[key] ?? 0) + 1;
+      });
+      return counts;
+    };
+    return this.addStep(operation, 'countBy', [fn]);
+  }
+
+  // Split array elements into [matching, rest]
+  // A type guard predicate narrows both sides
+  partition<S extends ArrayItem<T>>(
+    predicate: T extends unknown[] ? (item: T[number], index: number) => item is S : never
+  ): Gluify<[S[], Exclude<ArrayItem<T>, S>[]], In>;
+  partition(
+    predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never
+  ): Gluify<T extends unknown[] ? [T[number][], T[number][]] : never, In>;
+  partition(
+    predicate: T extends unknown[] ? (item: T[number], index: number) => boolean : never
+  ): Gluify<unknown, In> {
+    const operation: Operation = (arr: unknown) => {
+      const matching: unknown[] = [];
+      const rest: unknown[] = [];
+      (arr as unknown[]).forEach((item, index) => {
+        ((predicate as (item: unknown, index: number) => boolean)(item, index) ? matching : rest).push(item);
+      });
+      return [matching, rest];
+    };
+    return this.addStep(operation, 'partition', [predicate]);
+  }
+
+  // Elements of the array and then of `other`, without duplicate keys
+  union(
+    other: T extends unknown[] ? readonly T[number][] : never,
+    by?: T extends unknown[] ? KeySelector<T[number]> : never
+  ): Gluify<T extends unknown[] ? T : never, In> {
+    const key = keyFunction(by);
+    const operation: Operation = (arr: unknown) => uniqueByKey([...(arr as unknown[]), ...(other as readonly unknown[])], key);
+    return this.addStep(operation, 'union', by === undefined ? [other] : [other, by]);
+  }
+
+  // Elements whose key is also in `other`, without duplicate keys
+  intersect(
+    other: T extends unknown[] ? readonly T[number][] : never,
+    by?: T extends unknown[] ? KeySelector<T[number]> : never
+  ): Gluify<T extends unknown[] ? T : never, In> {
+    const key = keyFunction(by);
+    const operation: Operation = (arr: unknown) => {
+      const keys = new Set((other as readonly unknown[]).map(key));
+      return uniqueByKey((arr as unknown[]).filter(item => keys.has(key(item))), key);
+    };
+    return this.addStep(operation, 'intersect', by === undefined ? [other] : [other, by]);
+  }
+
+  // Elements whose key is not in `other` - duplicates are kept, like filter()
+  difference(
+    other: T extends unknown[] ? readonly T[number][] : never,
+    by?: T extends unknown[] ? KeySelector<T[number]> : never
+  ): Gluify<T extends unknown[] ? T : never, In> {
+    const key = keyFunction(by);
+    const operation: Operation = (arr: unknown) => {
+      const keys = new Set((other as readonly unknown[]).map(key));
+      return (arr as unknown[]).filter(item => !keys.has(key(item)));
+    };
+    return this.addStep(operation, 'difference', by === undefined ? [other] : [other, by]);
+  }
+
+  // Elements whose key is in only one of the arrays, without duplicate keys
+  symmetricDifference(
+    other: T extends unknown[] ? readonly T[number][] : never,
+    by?: T extends unknown[] ? KeySelector<T[number]> : never
+  ): Gluify<T extends unknown[] ? T : never, In> {
+    const key = keyFunction(by);
+    const operation: Operation = (arr: unknown) => {
+      const left = new Set((arr as unknown[]).map(key));
+      const right = new Set((other as readonly unknown[]).map(key));
+      const items = [...(arr as unknown[]), ...(other as readonly unknown[])];
+      return uniqueByKey(items.filter(item => !(left.has(key(item)) && right.has(key(item)))), key);
+    };
+    return this.addStep(operation, 'symmetricDifference', by === undefined ? [other] : [other, by]);
+  }
+
+  // Stable sort by one or more keys, each with its direction and null ordering
+  sortBy(
+    by?: T extends unknown[] ? SortBy<T[number]> : never,
+    options: SortOptions = {}
+  ): Gluify<T extends unknown[] ? T : never, In> {
+    const criteria = sortCriteria(by);
+    const compare = entryComparator(criteria, sortCollator(options));
+    const operation: Operation = (arr: unknown) =>
+      sortEntries(arr as unknown[], criteria)
+        .sort(compare)
+        .map(entry => entry.item);
+    return this.addStep(operation, 'sortBy', by === undefined ? [] : [by, options]);
+  }
+
+  // Stable sort by keys with matching directions, ascending where `dirs` is shorter
+  orderBy(
+    keys: T extends unknown[] ? SortKeySelector<T[number]>[] : never,
+    dirs: ('asc' | 'desc')[] = [],
+    options: SortOptions = {}
+  ): Gluify<T extends unknown[] ? T : never, In> {
+    const criteria = sortCriteria((keys as unknown[]).map((key, i) => ({ key, dir: dirs[i] })));
+    const compare = entryComparator(criteria, sortCollator(options));
+    const operation: Operation = (arr: unknown) =>
+      sortEntries(arr as unknown[], criteria)
+        .sort(compare)
+        .map(entry => entry.item);
+    return this.addStep(operation, 'orderBy', [keys, dirs, options]);
+  }
+
+  // The first `n` elements in sortBy() order, selected without sorting the whole array
+  topN(
+    n: T extends unknown[] ? number : never,
+    by?: T extends unknown[] ? SortBy<T[number]> : never,
+    options: SortOptions = {}
+  ): Gluify<T extends unknown[] ? T : never, In> {
+    if (!Number.isInteger(n) || (n as number) < 0) {
+      throw new Error('topN() needs a non-negative integer count');
+    }
+    const criteria = sortCriteria(by);
+    const compare = entryComparator(criteria, sortCollator(options));
+    const operation: Operation = (arr: unknown) =>
+      selectTop(sortEntries(arr as unknown[], criteria), n as number, compare).map(entry => entry.item);
+    return this.addStep(operation, 'topN', by === undefined ? [n] : [n, by, options]);
+  }
+
+  // The element with the smallest key, or undefined when there is none
+  minBy(
+    by?: T extends unknown[] ? SortKeySelector<T[number]> : never,
+    options: SortOptions = {}
+  ): Gluify<T extends unknown[] ? T[number] | undefined : never, In> {
+    const key = keyPathFunction(by);
+    const collator = sortCollator(options);
+    const operation: Operation = (arr: unknown) => extremeBy(arr as unknown[], key, collator, 1);
+    return this.addStep(operation, 'minBy', by === undefined ? [] : [by, options]);
+  }
+
+  // The element with the largest key, or undefined when there is none
+  maxBy(
+    by?: T extends unknown[] ? SortKeySelector<T[number]> : never,
+    options: SortOptions = {}
+  ): Gluify<T extends unknown[] ? T[number] | undefined : never, In> {
+    const key = keyPathFunction(by);
+    const collator = sortCollator(options);
+    const operation: Operation = (arr: unknown) => extremeBy(arr as unknown[], key, collator, -1);
+    return this.addStep(operation, 'maxBy', by === undefined ? [] : [by, options]);
+  }
+
+  // Split into arrays of `size` elements - the last one may be shorter
+  chunk(size: T extends unknown[] ? number : never): Gluify<T extends unknown[] ? T[number][][] : never, In> {
+    positiveInteger('chunk', 'size', size as number);
+    const operation: Operation = (arr: unknown) => {
+      const items = arr as unknown[];
+      const chunks: unknown[][] = [];
+      for (let start = 0; start < items.length; start += size as number) {
+        chunks.push(items.slice(start, start + (size as number)));
+      }
+      return chunks;
+    };
+    return this.addStep(operation, 'chunk', [size]);
+  }
+
+  // Sliding windows of `size` elements, starting every `step` elements - only full windows are kept
+  window(
+    size: T extends unknown[] ? number : never,
+    step: T extends unknown[] ? number : never = 1 as never
+  ): Gluify<T extends unknown[] ? T[number][][] : never, In> {
+    positiveInteger('window', 'size', size as number);
+    positiveInteger('window', 'step', step as number);
+    const operation: Operation = (arr: unknown) => {
+      const items = arr as unknown[];
+      const windows: unknown[][] = [];
+      for (let start = 0; start + (size as number) <= items.length; start += step as number) {
+        windows.push(items.slice(start, start + (size as number)));
+      }
+      return windows;
+    };
+    return this.addStep(operation, 'window', [size, step]);
+  }
+
+  // Pairs of consecutive elements
+  pairwise(): Gluify<T extends unknown[] ? [T[number], T[number]][] : never, In> {
+    const operation: Operation = (arr: unknown) => {
+      const items = arr as unknown[];
+      return items.slice(1).map((item, index) => [items[index], item]);
+    };
+    return this.addStep(operation, 'pairwise', []);
+  }
+
+  // Tuples of the elements at each position, as long as the shortest array
+  zip<O extends unknown[][]>(...others: O): Gluify<T extends unknown[] ? [T[number], ...ItemsOf<O>][] : never, In> {
+    const operation: Operation = (arr: unknown) => {
+      const arrays = [arr as unknown[], ...others];
+      const length = Math.min(...arrays.map(array => array.length));
+      return Array.from({ length }, (_, index) => arrays.map(array => array[index]));
+    };
+    return this.addStep(operation, 'zip', others);
+  }
+
+  // Combine the elements at each position with `fn`, as long as the shortest array
+  zipWith<O extends unknown[][], U>(
+    fn: T extends unknown[] ? (item: T[number], ...others: ItemsOf<O>) => U : never,
+    ...others: O
+  ): Gluify<T extends unknown[] ? U[] : never, In> {
+    const operation: Operation = (arr: unknown) => {
+      const arrays = [arr as unknown[], ...others];
+      const length = Math.min(...arrays.map(array => array.length));
+      const combine = fn as unknown as (...items: unknown[]) => U;
+      return Array.from({ length }, (_, index) => combine(...arrays.map(array => array[index])));
+    };
+    return this.addStep(operation, 'zipWith', [fn, ...others]);
+  }
+
+  // Turn an array of tuples into one array per tuple position
+  unzip(): Gluify<T extends (infer Tuple extends unknown[])[] ? Unzipped<Tuple> : never, In> {
+    const operation: Operation = (arr: unknown) => unzipTuples(arr as unknown[][]);
+    return this.addStep(operation, 'unzip', []);
+  }
+
+  // Take elements from the array and `others` in turn, continuing with the longer ones
+  interleave<O extends unknown[][]>(...others: O): Gluify<T extends unknown[] ? (T[number] | ItemsOf<O>[number])[] : never, In> {
+    const operation: Operation = (arr: unknown) => {
+      const arrays = [arr as unknown[], ...others];
+      const length = Math.max(...arrays.map(array => array.length));
+      const result: unknown[] = [];
+      for (let index = 0; index < length; index++) {
+        for (const array of arrays) {
+          if (index < array.length) result.push(array[index]);
+        }
+      }
+      return result;
+    };
+    return this.addStep(operation, 'interleave', others);
+  }
+
+  // ============================================
+  // Statistics Utilities
+  // ============================================
+  // Available on number arrays, or on any array given a key path or function
+  // returning numbers. Empty arrays throw unless `empty` is 'undefined' or 'nan'
+
+  // Run a statistic over the selected numbers, or the empty policy below `minimum` values
+  private stat<R>(
+    kind: string,
+    args: unknown[],
+    compute: (values: number[]) => number,
+    minimum = 1,
+    stepArgs: unknown[] = args
+  ): Gluify<R, In> {
+    const [by, options] = statsArgs(args);
+    const key = keyPathFunction(by);
+    const operation: Operation = (arr: unknown) => {
+      const values = (arr as unknown[]).map(item => key(item) as number);
+      return values.length < minimum ? emptyStat(kind, options, minimum) : compute(values);
+    };
+    return this.addStep<R>(operation, kind, stepArgs);
+  }
+
+  // Sum of the numbers - 0 for an empty array
+  sum(...args: StatsArgs<T, []>): Gluify<number, In> {
+    return this.stat('sum', args, values => values.reduce((sum, value) => sum + value, 0), 0);
+  }
+
+  // Arithmetic mean of the numbers
+  mean<E extends EmptyPolicy = 'throw'>(...args: StatsArgs<T, [options?: StatsOptions<E>]>): Gluify<StatResult<E>, In> {
+    return this.stat('mean', args, values => values.reduce((sum, value) => sum + value, 0) / values.length);
+  }
+
+  // Middle value of the numbers - the mean of the two middle values for an even count
+  median<E extends EmptyPolicy = 'throw'>(...args: StatsArgs<T, [options?: StatsOptions<E>]>): Gluify<StatResult<E>, In> {
+    return this.stat('median', args, values => percentileOf([...values].sort((a, b) => a - b), 50));
+  }
+
+  // Smallest of the numbers
+  min<E extends EmptyPolicy = 'throw'>(...args: StatsArgs<T, [options?: StatsOptions<E>]>): Gluify<StatResult<E>, In> {
+    return this.stat('min', args, values => values.reduce((min, value) => (value < min ? value : min)));
+  }
+
+  // Largest of the numbers
+  max<E extends EmptyPolicy = 'throw'>(...args: StatsArgs<T, [options?: StatsOptions<E>]>): Gluify<StatResult<E>, In> {
+    return this.stat('max', args, values => values.reduce((max, value) => (value > max ? value : max)));
+  }
+
+  // Population variance of the numbers, or sample variance with `sample: true`
+  variance<E extends EmptyPolicy = 'throw'>(...args: StatsArgs<T, [options?: VarianceOptions<E>]>): Gluify<StatResult<E>, In> {
+    const sample = statsArgs(args)[1].sample === true;
+    return this.stat('variance', args, values => varianceOf(values, sample), sample ? 2 : 1);
+  }
+
+  // Population standard deviation of the numbers, or sample standard deviation with `sample: true`
+  stddev<E extends EmptyPolicy = 'throw'>(...args: StatsArgs<T, [options?: VarianceOptions<E>]>): Gluify<StatResult<E>, In> {
+    const sample = statsArgs(args)[1].sample === true;
+    return this.stat('stddev', args, values => Math.sqrt(varianceOf(values, sample)), sample ? 2 : 1);
+  }
+
+  // The p-th percentile (0-100) of the numbers, interpolating between the closest ranks
+  percentile<E extends EmptyPolicy = 'throw'>(
+    p: number,
+    ...args: StatsArgs<T, [options?: StatsOptions<E>]>
+  ): Gluify<StatResult<E>, In> {
+    if (!(p >= 0 && p <= 100)) {
+      throw new Error('percentile() p must be between 0 and 100');
+    }
+    return this.stat('percentile', args, values => percentileOf([...values].sort((a, b) => a - b), p), 1, [p, ...args]);
+  }
+
+  // Count the numbers per bucket: `buckets` equal-width buckets from the smallest to the
+  // largest number, or the buckets between ascending boundaries. Empty arrays give no
+  // buckets for a count and empty buckets for boundaries
+  histogram(buckets: number | readonly number[], ...args: StatsArgs<T, []>): Gluify<HistogramBucket[], In> {
+    if (typeof buckets === 'number') {
+      positiveInteger('histogram', 'bucket count', buckets);
+    } else if (buckets.length < 2 || buckets.some((boundary, i) => i > 0 && !(boundary > buckets[i - 1]))) {
+      throw new Error('histogram() boundaries must be at least two ascending numbers');
+    }
+    const key = keyPathFunction(args[0]);
+    const operation: Operation = (arr: unknown) => {
+      const values = (arr as unknown[]).map(item => key(item) as number);
+      if (typeof buckets !== 'number') return histogramOf(values, [...buckets]);
+      if (values.length === 0) return [];
+      const min = values.reduce((a, b) => (b < a ? b : a));
+      const max = values.reduce((a, b) => (b > a ? b : a));
+      // Equal values have no range to split - one bucket holds them all
+      if (min === max) return [{ from: min, to: max, count: values.length }];
+      const boundaries = Array.from({ length: buckets + 1 }, (_, i) => (i === buckets ? max : min + ((max - min) * i) / buckets));
+      return histogramOf(values, boundaries);
+    };
+    return this.addStep<HistogramBucket[]>(operation, 'histogram', [buckets, ...args]);
+  }
+
+  // ============================================
+  // Async Array Utilities
+  // ============================================
+  // These await the current value and every callback, running at most
+  // `concurrency` callbacks at once. Results keep the original order
+
+  // Map over array elements with an async function
+  mapAsync<U>(
+    fn: Awaited<T> extends (infer Item)[] ? (item: Item, index: number) => U | PromiseLike<U> : never,
+    options: ConcurrencyOptions = {}
+  ): Gluify<Promise<U[]>, In> {
+    const limit = concurrencyLimit('mapAsync', options);
+    const operation: Operation = async (arr: unknown, context: StepContext = {}) =>
+      mapConcurrent(await arr as unknown[], limit, fn as (item: unknown, index: number) => unknown, context.signal);
+    return this.addStep<Promise<U[]>>(operation, 'mapAsync', [fn, options]);
+  }
+
+  // Filter array elements with an async predicate
+  filterAsync(
+    predicate: Awaited<T> extends (infer Item)[] ? (item: Item, index: number) => boolean | PromiseLike<boolean> : never,
+    options: ConcurrencyOptions = {}
+  ): Gluify<Promise<Awaited<T>>, In> {
+    const limit = concurrencyLimit('filterAsync', options);
+    const operation: Operation = async (arr: unknown, context: StepContext = {}) => {
+      const items = await arr as unknown[];
+      const keep = await mapConcurrent(items, limit, predicate as (item: unknown, index: number) => unknown, context.signal);
+      return items.filter((_, index) => keep[index]);
+    };
+    return this.addStep<Promise<Awaited<T>>>(operation, 'filterAsync', [predicate, options]);
+  }
+
+  // Map every element to an array with an async function and flatten the results one level
+  flatMapAsync<U>(
+    fn: Awaited<T> extends (infer Item)[] ? (item: Item, index: number) => readonly U[] | PromiseLike<readonly U[]> : never,
+    options: ConcurrencyOptions = {}
+  ): Gluify<Promise<U[]>, In> {
+    const limit = concurrencyLimit('flatMapAsync', options);
+    const operation: Operation = async (arr: unknown, context: StepContext = {}) => {
+      const results = await mapConcurrent(await arr as unknown[], limit, fn as (item: unknown, index: number) => unknown, context.signal);
+      return results.flat();
+    };
+    return this.addStep<Promise<U[]>>(operation, 'flatMapAsync', [fn, options]);
+  }
+
+  // Run an async side effect for every element, passing the array through unchanged
+  forEachAsync(
+    fn: Awaited<T> extends (infer Item)[] ? (item: Item, index: number) => unknown : never,
+    options: ConcurrencyOptions = {}
+  ): Gluify<Promise<Awaited<T>>, In> {
+    const limit = concurrencyLimit('forEachAsync', options);
+    const operation: Operation = async (arr: unknown, context: StepContext = {}) => {
+      const items = await arr as unknown[];
+      await mapConcurrent(items, limit, fn as (item: unknown, index: number) => unknown, context.signal);
+      return items;
+    };
+    return this.addStep<Promise<Awaited<T>>>(operation, 'forEachAsync', [fn, options]);
   }
 
   // ============================================
@@ -280,7 +2501,7 @@ class Gluify<T> {
   // ============================================
 
   // Pick specific keys from object
-  pick<K extends keyof T>(...keys: K[]): Gluify<Pick<T, K>> {
+  pick<K extends keyof T>(...keys: K[]): Gluify<Pick<T, K>, In> {
     const operation: Operation = (obj: unknown) => {
       const source = obj as Record<string, unknown>;
       const result: Record<string, unknown> = {};
@@ -291,11 +2512,11 @@ class Gluify<T> {
       }
       return result;
     };
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'pick', keys);
   }
 
   // Omit specific keys from object
-  omit<K extends keyof T>(...keys: K[]): Gluify<Omit<T, K>> {
+  omit<K extends keyof T>(...keys: K[]): Gluify<Omit<T, K>, In> {
     const operation: Operation = (obj: unknown) => {
       const result = { ...(obj as Record<string, unknown>) };
       for (const key of keys) {
@@ -303,31 +2524,31 @@ class Gluify<T> {
       }
       return result;
     };
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'omit', keys);
   }
 
   // Get object keys
-  keys(): Gluify<T extends object ? (keyof T)[] : never> {
+  keys(): Gluify<T extends object ? (keyof T)[] : never, In> {
     const operation: Operation = (obj: unknown) => Object.keys(obj as object);
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'keys', []);
   }
 
   // Get object values
-  values(): Gluify<T extends object ? T[keyof T][] : never> {
+  values(): Gluify<T extends object ? T[keyof T][] : never, In> {
     const operation: Operation = (obj: unknown) => Object.values(obj as object);
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'values', []);
   }
 
   // Get object entries
-  entries(): Gluify<T extends object ? [keyof T, T[keyof T]][] : never> {
+  entries(): Gluify<T extends object ? [keyof T, T[keyof T]][] : never, In> {
     const operation: Operation = (obj: unknown) => Object.entries(obj as object);
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'entries', []);
   }
 
   // Merge objects
-  merge<U>(other: U): Gluify<T & U> {
+  merge<U>(other: U): Gluify<T & U, In> {
     const operation: Operation = (obj: unknown) => ({ ...(obj as object), ...other });
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'merge', [other]);
   }
 
   // ============================================
@@ -335,42 +2556,42 @@ class Gluify<T> {
   // ============================================
 
   // Trim whitespace
-  trim(): Gluify<T extends string ? string : never> {
+  trim(): Gluify<T extends string ? string : never, In> {
     const operation: Operation = (str: unknown) => (str as string).trim();
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'trim', []);
   }
 
   // Split string
-  split(separator: T extends string ? string | RegExp : never): Gluify<string[]> {
+  split(separator: T extends string ? string | RegExp : never): Gluify<string[], In> {
     const operation: Operation = (str: unknown) => (str as string).split(separator as string | RegExp);
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'split', [separator]);
   }
 
   // Join array into string
-  join(separator?: T extends unknown[] ? string : never): Gluify<string> {
+  join(separator?: T extends unknown[] ? string : never): Gluify<string, In> {
     const operation: Operation = (arr: unknown) => (arr as unknown[]).join(separator);
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'join', separator === undefined ? [] : [separator]);
   }
 
   // Replace in string
   replace(
     searchValue: T extends string ? string | RegExp : never,
     replaceValue: string
-  ): Gluify<T extends string ? string : never> {
+  ): Gluify<T extends string ? string : never, In> {
     const operation: Operation = (str: unknown) => (str as string).replace(searchValue as string | RegExp, replaceValue);
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'replace', [searchValue, replaceValue]);
   }
 
   // Convert to uppercase
-  toUpperCase(): Gluify<T extends string ? string : never> {
+  toUpperCase(): Gluify<T extends string ? string : never, In> {
     const operation: Operation = (str: unknown) => (str as string).toUpperCase();
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'toUpperCase', []);
   }
 
   // Convert to lowercase
-  toLowerCase(): Gluify<T extends string ? string : never> {
+  toLowerCase(): Gluify<T extends string ? string : never, In> {
     const operation: Operation = (str: unknown) => (str as string).toLowerCase();
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'toLowerCase', []);
   }
 
   // ============================================
@@ -378,25 +2599,324 @@ class Gluify<T> {
   // ============================================
 
   // Provide default value if null/undefined
-  defaultTo<U>(defaultValue: U): Gluify<NonNullable<T> | U> {
+  defaultTo<U>(defaultValue: U): Gluify<NonNullable<T> | U, In> {
     const operation: Operation = (value: unknown) => value ?? defaultValue;
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'defaultTo', [defaultValue]);
   }
 
   // Check if value is null or undefined
-  isNil(): Gluify<boolean> {
+  isNil(): Gluify<boolean, In> {
     const operation: Operation = (value: unknown) => value == null;
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'isNil', []);
   }
 
   // Clone value (shallow)
-  clone(): Gluify<T> {
+  clone(): Gluify<T, In> {
     const operation: Operation = (value: unknown) => {
       if (Array.isArray(value)) return [...value];
       if (typeof value === 'object' && value !== null) return { ...value };
       return value;
     };
-    return this.createNext([...this.operations, operation]);
+    return this.addStep(operation, 'clone', []);
+  }
+}
+
+// A lazy transform of the items flowing through a GluifyIterable
+type IterStage = (items: AsyncIterable<unknown>) => AsyncIterable<unknown>;
+
+// Async iterator over a sync or async iterable
+function asyncIterator(source: Iterable<unknown> | AsyncIterable<unknown>): AsyncIterator<unknown> {
+  return (async function* () {
+    yield* source;
+  })();
+}
+
+// Lazy, single-pass pipeline over an Iterable or AsyncIterable (see gluify.iter()).
+// Operators are fused: each item flows through every stage before the next one is
+// read, so only the items in flight are held in memory. take(), find(), some() and
+// every() stop reading the source as soon as they have their answer
+class GluifyIterable<T> implements AsyncIterable<T> {
+  private source: Iterable<unknown> | AsyncIterable<unknown>;
+  private stages: IterStage[];
+
+  constructor(source: Iterable<unknown> | AsyncIterable<unknown>, stages: IterStage[] = []) {
+    this.source = source;
+    this.stages = stages;
+  }
+
+  // Helper method to create a new GluifyIterable with one more stage
+  private addStage<U>(stage: IterStage): GluifyIterable<U> {
+    return new GluifyIterable<U>(this.source, [...this.stages, stage]);
+  }
+
+  // Read the source through every stage - nothing runs until iteration starts
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    const source = this.source;
+    let items: AsyncIterable<unknown> = (async function* () {
+      yield* source;
+    })();
+    for (const stage of this.stages) {
+      items = stage(items);
+    }
+    yield* items as AsyncIterable<T>;
+  }
+
+  // Map over items - async functions are awaited one item at a time
+  map<U>(fn: (item: T, index: number) => U | PromiseLike<U>): GluifyIterable<U> {
+    return this.addStage<U>(async function* (items) {
+      let index = 0;
+      for await (const item of items) {
+        yield await fn(item as T, index++);
+      }
+    });
+  }
+
+  // Keep items matching the predicate - a type guard narrows the item type
+  filter<S extends T>(predicate: (item: T, index: number) => item is S): GluifyIterable<S>;
+  filter(predicate: (item: T, index: number) => boolean | PromiseLike<boolean>): GluifyIterable<T>;
+  filter(predicate: (item: T, index: number) => boolean | PromiseLike<boolean>): GluifyIterable<T> {
+    return this.addStage<T>(async function* (items) {
+      let index = 0;
+      for await (const item of items) {
+        if (await predicate(item as T, index++)) yield item;
+      }
+    });
+  }
+
+  // Map every item to an iterable and flatten the results one level
+  flatMap<U>(fn: (item: T, index: number) => Iterable<U> | AsyncIterable<U> | PromiseLike<Iterable<U>>): GluifyIterable<U> {
+    return this.addStage<U>(async function* (items) {
+      let index = 0;
+      for await (const item of items) {
+        yield* await fn(item as T, index++);
+      }
+    });
+  }
+
+  // Run a side effect for every item, passing it through unchanged
+  tap(fn: (item: T, index: number) => unknown): GluifyIterable<T> {
+    return this.addStage<T>(async function* (items) {
+      let index = 0;
+      for await (const item of items) {
+        await fn(item as T, index++);
+        yield item;
+      }
+    });
+  }
+
+  // First n items, then stop reading the source
+  take(n: number): GluifyIterable<T> {
+    return this.addStage<T>(async function* (items) {
+      if (n <= 0) return;
+      let count = 0;
+      for await (const item of items) {
+        yield item;
+        if (++count >= n) return;
+      }
+    });
+  }
+
+  // Skip the first n items
+  skip(n: number): GluifyIterable<T> {
+    return this.addStage<T>(async function* (items) {
+      let count = 0;
+      for await (const item of items) {
+        if (count++ >= n) yield item;
+      }
+    });
+  }
+
+  // Drop items already seen - remembers every distinct item
+  unique(): GluifyIterable<T> {
+    return this.addStage<T>(async function* (items) {
+      const seen = new Set<unknown>();
+      for await (const item of items) {
+        if (seen.has(item)) continue;
+        seen.add(item);
+        yield item;
+      }
+    });
+  }
+
+  // Drop null, undefined and other falsy items
+  compact(): GluifyIterable<Exclude<NonNullable<T>, false | 0 | '' | 0n>> {
+    return this.addStage(async function* (items) {
+      for await (const item of items) {
+        if (item) yield item;
+      }
+    });
+  }
+
+  // Group items into arrays of `size` - the last one may be shorter
+  chunk(size: number): GluifyIterable<T[]> {
+    positiveInteger('chunk', 'size', size);
+    return this.addStage<T[]>(async function* (items) {
+      let chunk: unknown[] = [];
+      for await (const item of items) {
+        chunk.push(item);
+        if (chunk.length === size) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0) yield chunk;
+    });
+  }
+
+  // Sliding windows of `size` items, starting every `step` items - only full windows are kept
+  window(size: number, step = 1): GluifyIterable<T[]> {
+    positiveInteger('window', 'size', size);
+    positiveInteger('window', 'step', step);
+    return this.addStage<T[]>(async function* (items) {
+      let buffer: unknown[] = [];
+      // Items to drop before the next window starts, when step > size
+      let gap = 0;
+      for await (const item of items) {
+        if (gap > 0) {
+          gap--;
+          continue;
+        }
+        buffer.push(item);
+        if (buffer.length === size) {
+          yield buffer;
+          buffer = buffer.slice(step);
+          gap = Math.max(0, step - size);
+        }
+      }
+    });
+  }
+
+  // Pairs of consecutive items
+  pairwise(): GluifyIterable<[T, T]> {
+    return this.addStage<[T, T]>(async function* (items) {
+      let previous: unknown;
+      let started = false;
+      for await (const item of items) {
+        if (started) yield [previous, item];
+        previous = item;
+        started = true;
+      }
+    });
+  }
+
+  // Tuples of the items at each position, ending with the shortest source
+  zip<O extends (Iterable<unknown> | AsyncIterable<unknown>)[]>(...others: O): GluifyIterable<[T, ...ItemsOf<O>]> {
+    return this.addStage<[T, ...ItemsOf<O>]>(async function* (items) {
+      const iterators = others.map(asyncIterator);
+      try {
+        for await (const item of items) {
+          const tuple = [item];
+          for (const iterator of iterators) {
+            const next = await iterator.next();
+            if (next.done) return;
+            tuple.push(next.value);
+          }
+          yield tuple;
+        }
+      } finally {
+        await Promise.all(iterators.map(iterator => iterator.return?.()));
+      }
+    });
+  }
+
+  // Combine the items at each position with `fn`, ending with the shortest source
+  zipWith<O extends (Iterable<unknown> | AsyncIterable<unknown>)[], U>(
+    fn: (item: T, ...others: ItemsOf<O>) => U | PromiseLike<U>,
+    ...others: O
+  ): GluifyIterable<U> {
+    const combine = fn as unknown as (...items: unknown[]) => U | PromiseLike<U>;
+    return this.zip(...others).map(tuple => combine(...tuple));
+  }
+
+  // Take items from this source and `others` in turn, continuing with the longer ones
+  interleave<O extends (Iterable<unknown> | AsyncIterable<unknown>)[]>(...others: O): GluifyIterable<T | ItemsOf<O>[number]> {
+    return this.addStage<T | ItemsOf<O>[number]>(async function* (items) {
+      let pending = [items, ...others].map(asyncIterator);
+      try {
+        while (pending.length > 0) {
+          const active: AsyncIterator<unknown>[] = [];
+          for (const iterator of pending) {
+            const next = await iterator.next();
+            if (next.done) continue;
+            yield next.value;
+            active.push(iterator);
+          }
+          pending = active;
+        }
+      } finally {
+        await Promise.all(pending.map(iterator => iterator.return?.()));
+      }
+    });
+  }
+
+  // ============================================
+  // Terminal operators - return a regular Gluify chain
+  // ============================================
+
+  // Read every item into an array, stopping once the signal aborts
+  private async toArray(signal?: AbortSignal): Promise<T[]> {
+    const result: T[] = [];
+    for await (const item of this) {
+      if (signal?.aborted) throw abortReason(signal);
+      result.push(item);
+    }
+    return result;
+  }
+
+  // Collect every item into an array
+  collect(): Gluify<Promise<T[]>> {
+    return gluify(() => this.toArray());
+  }
+
+  // First item matching the predicate, or undefined
+  find<S extends T>(predicate: (item: T) => item is S): Gluify<Promise<S | undefined>>;
+  find(predicate: (item: T) => boolean | PromiseLike<boolean>): Gluify<Promise<T | undefined>>;
+  find(predicate: (item: T) => boolean | PromiseLike<boolean>): Gluify<Promise<T | undefined>> {
+    return gluify(async () => {
+      for await (const item of this) {
+        if (await predicate(item)) return item;
+      }
+      return undefined;
+    });
+  }
+
+  // Whether some item matches the predicate
+  some(predicate: (item: T) => boolean | PromiseLike<boolean>): Gluify<Promise<boolean>> {
+    return gluify(async () => {
+      for await (const item of this) {
+        if (await predicate(item)) return true;
+      }
+      return false;
+    });
+  }
+
+  // Whether every item matches the predicate
+  every(predicate: (item: T) => boolean | PromiseLike<boolean>): Gluify<Promise<boolean>> {
+    return gluify(async () => {
+      for await (const item of this) {
+        if (!(await predicate(item))) return false;
+      }
+      return true;
+    });
+  }
+
+  // Read every tuple and split them into one array per tuple position
+  unzip(): Gluify<Promise<T extends unknown[] ? Unzipped<T> : never>> {
+    return gluify(async () => unzipTuples((await this.toArray()) as unknown[][]) as T extends unknown[] ? Unzipped<T> : never);
+  }
+
+  // Reduce the items to a single value
+  reduce<U>(fn: (acc: U, item: T) => U | PromiseLike<U>, initialValue: U): Gluify<Promise<U>> {
+    return gluify(async () => {
+      let acc = initialValue;
+      for await (const item of this) acc = await fn(acc, item);
+      return acc;
+    });
+  }
+
+  // Read the whole source and resolve with the collected items
+  runAsync(options: RunAsyncOptions = {}): Promise<T[]> {
+    return gluify(() => this.toArray(options.signal)).runAsync(options);
   }
 }
 
@@ -410,4 +2930,16 @@ function gluify<T, Args extends unknown[]>(
   return new Gluify<T>(undefined, [], true, lazyInitializer);
 }
 
-export { gluify, Gluify, PipeFunction };
+// Start a lazy iterable pipeline over any Iterable or AsyncIterable - e.g. lines
+// of a large file - processing one item at a time instead of whole arrays
+gluify.iter = function iter<T>(source: Iterable<T> | AsyncIterable<T>): GluifyIterable<T> {
+  return new GluifyIterable<T>(source);
+};
+
+// Start a reusable pipeline template without an initial value. Chain operators as
+// usual, then call toFunction() or toAsyncFunction() to apply it to many inputs
+function flow<T>(): Gluify<T, T> {
+  return new Gluify<T, T>(undefined);
+}
+
+export { gluify, flow, Gluify, GluifyIterable, GluifyTimeoutError, GluifyStepError, GluifyValidationError, PipeFunction, GluifyResult, ErrorClass, ErrorLike, Schema, ValidationIssue, RetryOptions, Clock, ConcurrencyOptions, SortKey, SortOptions, StatsOptions, VarianceOptions, HistogramBucket, GluifyCache, MemoizeOptions, RunCacheOptions, RunOptions, RunAsyncOptions, StepContext, StepEvent, StepListener, StepMeta, StepDescriptor, ExplainStep, Explanation };
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from 'vitest';
+import { gluify, StepContext } from '../src/Gluify';
+
+describe('Cancellation', () => {
+  describe('runAsync({ signal })', () => {
+    it('should stop between steps once aborted', async () => {
+      const controller = new AbortController();
+      const later = vi.fn((x: number) => x);
+
+      const promise = gluify(() => 1)
+        .pipeAsync(async x => {
+          controller.abort(new Error('User navigated away'));
+          return x + 1;
+        })
+        .pipeAsync(later)
+        .runAsync({ signal: controller.signal });
+
+      await expect(promise).rejects.toThrow('User navigated away');
+      expect(later).not.toHaveBeenCalled();
+    });
+
+    it('should not run the initializer when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('Cancelled'));
+      const init = vi.fn(() => 1);
+
+      await expect(gluify(init).runAsync({ signal: controller.signal })).rejects.toThrow('Cancelled');
+      expect(init).not.toHaveBeenCalled();
+    });
+
+    it('should reject a pending step as soon as the signal aborts', async () => {
+      const controller = new AbortController();
+
+      const promise = gluify(() => 1)
+        .pipeAsync(() => new Promise(() => {})) // Never settles
+        .runAsync({ signal: controller.signal });
+
+      controller.abort(new Error('Request cancelled'));
+      await expect(promise).rejects.toThrow('Request cancelled');
+    });
+
+    it('should reject a pending catch() handler or finally() cleanup as soon as the signal aborts', async () => {
+      const controller = new AbortController();
+
+      const handler = gluify(async (): Promise<string> => {
+        throw new Error('Step failed');
+      })
+        .catch(() => new Promise<string>(() => {})) // Never settles
+        .runAsync({ signal: controller.signal });
+      const cleanup = gluify(() => 1)
+        .finally(() => new Promise(() => {}))
+        .runAsync({ signal: controller.signal });
+
+      setTimeout(() => controller.abort(new Error('Request cancelled')), 20);
+      await expect(handler).rejects.toThrow('Request cancelled');
+      await expect(cleanup).rejects.toThrow('Request cancelled');
+    });
+
+    it('should not wait for cleanups started after the abort', async () => {
+      const controller = new AbortController();
+      const cleanup = vi.fn(() => new Promise(() => {}));
+
+      const promise = gluify(() => 1)
+        .pipeAsync(async x => {
+          controller.abort(new Error('Cancelled'));
+          return x;
+        })
+        .finally(cleanup)
+        .runAsync({ signal: controller.signal });
+
+      await expect(promise).rejects.toThrow('Cancelled');
+      expect(cleanup).toHaveBeenCalledOnce();
+    });
+
+    it('should not let catch() handlers swallow the abort', async () => {
+      const controller = new AbortController();
+      const handler = vi.fn(() => 'recovered');
+
+      const result = await gluify(() => 1)
+        .pipeAsync(async () => {
+          controller.abort(new Error('Cancelled'));
+          throw new Error('Step failed');
+        })
+        .catch(handler)
+        .runSafeAsync({ signal: controller.signal });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: false, error: new Error('Cancelled'), step: 1 });
+    });
+
+    it('should report the aborted step in runSafeAsync()', async () => {
+      const controller = new AbortController();
+
+      const result = await gluify(() => 1)
+        .pipe(x => x + 1)
+        .pipeAsync(() => {
+          // Abort while this step is pending
+          Promise.resolve().then(() => controller.abort(new Error('Cancelled')));
+          return new Promise(() => {});
+        })
+        .runSafeAsync({ signal: controller.signal });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.step).toBe(1);
+      }
+    });
+
+    it('should resolve normally when never aborted', async () => {
+      const controller = new AbortController();
+
+      const result = await gluify(async () => 2)
+        .pipeAsync(x => x * 3)
+        .runAsync({ signal: controller.signal });
+
+      expect(result).toBe(6);
+    });
+  });
+
+  describe('step context', () => {
+    it('should pass the signal to pipeAsyncWithContext() steps', async () => {
+      const controller = new AbortController();
+      let received: AbortSignal | undefined;
+
+      await gluify(() => 'https://example.com')
+        .pipeAsyncWithContext((url, ctx) => {
+          received = ctx.signal;
+          return url;
+        })
+        .runAsync({ signal: controller.signal });
+
+      expect(received).toBe(controller.signal);
+    });
+
+    it('should pass the context after additional arguments', async () => {
+      const controller = new AbortController();
+      const fetchPage = vi.fn((url: string, page: number, _ctx: StepContext) => `${url}?page=${page}`);
+
+      const result = await gluify(() => '/users')
+        .pipeAsyncWithContext(fetchPage, 2)
+        .runAsync({ signal: controller.signal });
+
+      expect(result).toBe('/users?page=2');
+      expect(fetchPage).toHaveBeenCalledWith('/users', 2, { signal: controller.signal });
+    });
+
+    it('should not pass the context to pipeAsync() steps', async () => {
+      const multiply = vi.fn((x: number, factor: number) => x * factor);
+
+      const joined = await gluify(() => [1, 2])
+        .pipeAsync((xs: number[], separator?: string) => xs.join(separator))
+        .runAsync({ signal: new AbortController().signal });
+      await gluify(() => 5)
+        .pipeAsync(multiply, 3)
+        .runAsync({ signal: new AbortController().signal });
+
+      expect(joined).toBe('1,2');
+      expect(multiply).toHaveBeenCalledWith(5, 3);
+    });
+
+    it('should pass an empty context in run()', async () => {
+      const result = await gluify(() => 1)
+        .pipeAsyncWithContext((x, ctx) => ctx.signal === undefined)
+        .run();
+
+      expect(result).toBe(true);
+    });
+  });
+});
@@ -164,6 +164,174 @@ describe('Async Functionality', () => {
     });
   });
 
+  describe('.all()', () => {
+    it('should join a record of branches into an object', async () => {
+      const user = { id: 7, name: 'Alice' };
+
+      const result = await gluify(async () => user)
+        .all({
+          orders: async u => [`order-${u.id}`],
+          score: async u => u.id * 10,
+          name: u => u.name,
+        })
+        .runAsync();
+
+      const score: number = result.score;
+      expect(score).toBe(70);
+      expect(result).toEqual({ orders: ['order-7'], score: 70, name: 'Alice' });
+    });
+
+    it('should join an array of branches into a tuple', async () => {
+      const [length, upper] = await gluify(() => 'gluify')
+        .all([s => s.length, async s => s.toUpperCase()])
+        .runAsync();
+
+      const typed: [number, string] = [length, upper];
+      expect(typed).toEqual([6, 'GLUIFY']);
+    });
+
+    it('should run branches concurrently', async () => {
+      const order: string[] = [];
+      const delayed = (label: string, ms: number) => () =>
+        new Promise(resolve => setTimeout(() => resolve(order.push(label)), ms));
+
+      await gluify(() => 1)
+        .all([delayed('slow', 20), delayed('fast', 1)])
+        .runAsync();
+
+      expect(order).toEqual(['fast', 'slow']);
+    });
+
+    it('should stay synchronous when every branch is', () => {
+      const result = gluify(() => 3)
+        .all({ double: x => x * 2, square: x => x * x })
+        .run();
+
+      expect(result).toEqual({ double: 6, square: 9 });
+    });
+
+    it('should reject with the first failing branch', async () => {
+      const result = await gluify(() => 1)
+        .all([async () => 'ok', async () => {
+          throw new Error('Lookup failed');
+        }])
+        .catch(error => error.message)
+        .runAsync();
+
+      expect(result).toBe('Lookup failed');
+    });
+
+    it('should pass the step context to allWithContext() branches only', async () => {
+      const controller = new AbortController();
+
+      const result = await gluify(() => 1)
+        .allWithContext({ signal: (_x, ctx) => ctx.signal })
+        .runAsync({ signal: controller.signal });
+      const [formatted] = await gluify(() => 1)
+        .all([(x: number, suffix?: string) => `${x}${suffix ?? ''}`])
+        .runAsync({ signal: controller.signal });
+
+      expect(result.signal).toBe(controller.signal);
+      expect(formatted).toBe('1');
+    });
+  });
+
+  describe('Async Array Utilities', () => {
+    // Async callback that records how many calls are pending at once
+    const tracked = <T, U>(fn: (item: T) => U) => {
+      let pending = 0;
+      const state = { peak: 0 };
+      const run = async (item: T) => {
+        state.peak = Math.max(state.peak, ++pending);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        pending--;
+        return fn(item);
+      };
+      return Object.assign(run, { state });
+    };
+
+    it('should map with an async function, keeping order', async () => {
+      const result = await gluify(async () => [3, 1, 2])
+        .mapAsync(async (n, i) => {
+          await new Promise(resolve => setTimeout(resolve, n));
+          return `${i}:${n}`;
+        })
+        .runAsync();
+
+      expect(result).toEqual(['0:3', '1:1', '2:2']);
+    });
+
+    it('should limit how many callbacks run at once', async () => {
+      const double = tracked((n: number) => n * 2);
+
+      const result = await gluify(() => [1, 2, 3, 4, 5, 6, 7])
+        .mapAsync(double, { concurrency: 2 })
+        .runAsync();
+
+      expect(result).toEqual([2, 4, 6, 8, 10, 12, 14]);
+      expect(double.state.peak).toBe(2);
+    });
+
+    it('should filter with an async predicate', async () => {
+      const result = await gluify(() => [1, 2, 3, 4, 5])
+        .filterAsync(async n => n % 2 === 1, { concurrency: 2 })
+        .runAsync();
+
+      expect(result).toEqual([1, 3, 5]);
+    });
+
+    it('should flatten async results one level', async () => {
+      const result = await gluify(() => ['a', 'b'])
+        .flatMapAsync(async s => [s, s.toUpperCase()])
+        .runAsync();
+
+      expect(result).toEqual(['a', 'A', 'b', 'B']);
+    });
+
+    it('should run side effects and pass the array through', async () => {
+      const seen: number[] = [];
+
+      const result = await gluify(() => [1, 2, 3])
+        .forEachAsync(async n => {
+          seen.push(n);
+        }, { concurrency: 1 })
+        .pipeAsync(arr => arr.length)
+        .runAsync();
+
+      expect(result).toBe(3);
+      expect(seen).toEqual([1, 2, 3]);
+    });
+
+    it('should chain after async steps', async () => {
+      const result = await gluify(async () => [1, 2])
+        .mapAsync(async n => n + 1)
+        .filterAsync(n => n > 2)
+        .runAsync();
+
+      expect(result).toEqual([3]);
+    });
+
+    it('should stop starting callbacks after a failure', async () => {
+      const fn = vi.fn(async (n: number) => {
+        if (n === 2) throw new Error(`Item ${n} failed`);
+        return n;
+      });
+
+      await expect(
+        gluify(() => [1, 2, 3, 4])
+          .mapAsync(fn, { concurrency: 1 })
+          .runAsync()
+      ).rejects.toThrow('Item 2 failed');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject invalid concurrency limits', () => {
+      expect(() => gluify(() => [1]).mapAsync(n => n, { concurrency: 0 })).toThrow(
+        'mapAsync() concurrency must be at least 1'
+      );
+    });
+  });
+
   describe('Performance & Execution', () => {
     it('should not await if value is not a Promise', async () => {
       const fn = vi.fn((x: number) => x * 2);
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { gluify } from '../src/Gluify';
+
+type Shape =
+  | { kind: 'circle'; radius: number }
+  | { kind: 'square'; size: number }
+  | { kind: 'rect'; width: number; height: number };
+
+describe('Branching', () => {
+  describe('.branch()', () => {
+    it('should run the true branch', () => {
+      const result = gluify(() => 20)
+        .branch(age => age >= 18, () => 'adult', () => 'minor')
+        .run();
+
+      expect(result).toBe('adult');
+    });
+
+    it('should run the false branch with a different type', () => {
+      const result = gluify(() => 12)
+        .branch(age => age >= 18, () => 'adult', age => ({ yearsLeft: 18 - age }))
+        .run();
+
+      const typed: string | { yearsLeft: number } = result;
+      expect(typed).toEqual({ yearsLeft: 6 });
+    });
+
+    it('should narrow both branches with a type guard', () => {
+      const parse = (input: string | number) =>
+        gluify(() => input)
+          .branch(
+            (value): value is string => typeof value === 'string',
+            s => s.toUpperCase(),
+            n => n.toFixed(1)
+          )
+          .run();
+
+      expect(parse('abc')).toBe('ABC');
+      expect(parse(2)).toBe('2.0');
+    });
+  });
+
+  describe('.match()', () => {
+    const classify = (n: number) =>
+      gluify(() => n)
+        .match(
+          [
+            { case: x => x < 0, then: () => 'negative' as const },
+            { case: x => x === 0, then: () => 0 as const },
+            { case: x => x > 100, then: x => ({ big: x }) },
+          ],
+          () => 'small' as const
+        )
+        .run();
+
+    it('should run the first matching case', () => {
+      expect(classify(-5)).toBe('negative');
+      expect(classify(0)).toBe(0);
+      expect(classify(500)).toEqual({ big: 500 });
+    });
+
+    it('should fall back to otherwise', () => {
+      const result: 'negative' | 0 | { big: number } | 'small' = classify(42);
+
+      expect(result).toBe('small');
+    });
+
+    it('should stop at the first matching case', () => {
+      const result = gluify(() => 10)
+        .match(
+          [
+            { case: x => x > 5, then: () => 'first' },
+            { case: x => x > 1, then: () => 'second' },
+          ],
+          () => 'none'
+        )
+        .run();
+
+      expect(result).toBe('first');
+    });
+  });
+
+  describe('.matchOn()', () => {
+    const area = (shape: Shape) =>
+      gluify(() => shape)
+        .matchOn('kind', {
+          circle: c => Math.PI * c.radius ** 2,
+          square: s => s.size ** 2,
+          rect: r => r.width * r.height,
+        })
+        .run();
+
+    it('should run the handler for the variant', () => {
+      expect(area({ kind: 'square', size: 3 })).toBe(9);
+      expect(area({ kind: 'rect', width: 2, height: 5 })).toBe(10);
+      expect(area({ kind: 'circle', radius: 1 })).toBeCloseTo(Math.PI);
+    });
+
+    it('should type the result as the union of handler results', () => {
+      const label = gluify((): Shape => ({ kind: 'circle', radius: 2 }))
+        .matchOn('kind', {
+          circle: c => c.radius,
+          square: s => `${s.size}`,
+          rect: () => null,
+        })
+        .run();
+
+      const typed: number | string | null = label;
+      expect(typed).toBe(2);
+    });
+
+    it('should throw for a variant without a handler', () => {
+      const result = gluify(() => ({ kind: 'triangle' }) as unknown as Shape)
+        .matchOn('kind', {
+          circle: () => 1,
+          square: () => 2,
+          rect: () => 3,
+        })
+        .runSafe();
+
+      expect(result).toEqual({ ok: false, error: new Error('matchOn() has no handler for kind "triangle"'), step: 0 });
+    });
+  });
+});
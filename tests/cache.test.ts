@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { gluify, flow } from '../src/Gluify';
+
+describe('Caching', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('.memoize()', () => {
+    it('should cache the previous step by input', () => {
+      const square = vi.fn((x: number) => x * x);
+      const squareOf = flow<number>().pipe(x => Math.abs(x)).pipe(square).memoize().toFunction();
+
+      expect(squareOf(2)).toBe(4);
+      expect(squareOf(2)).toBe(4);
+      expect(squareOf(3)).toBe(9);
+      expect(square).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache the lazy initializer', async () => {
+      const fetchConfig = vi.fn(async () => ({ debug: true }));
+      const config = gluify(fetchConfig).memoize();
+
+      await config.runAsync();
+      const result = await config.pipeAsync(c => c.debug).runAsync();
+
+      expect(result).toBe(true);
+      expect(fetchConfig).toHaveBeenCalledOnce();
+    });
+
+    it('should derive keys with the key option', () => {
+      const lookup = vi.fn((user: { id: number; name: string }) => user.name.toUpperCase());
+      const shout = flow<{ id: number; name: string }>()
+        .pipe(lookup)
+        .memoize({ key: user => (user as { id: number }).id })
+        .toFunction();
+
+      shout({ id: 1, name: 'alice' });
+      const result = shout({ id: 1, name: 'alice' });
+
+      expect(result).toBe('ALICE');
+      expect(lookup).toHaveBeenCalledOnce();
+    });
+
+    it('should cache undefined results', () => {
+      const find = vi.fn((_id: number): string | undefined => undefined);
+      const findUser = flow<number>().pipe(find).memoize().toFunction();
+
+      findUser(1);
+      findUser(1);
+
+      expect(find).toHaveBeenCalledOnce();
+    });
+
+    it('should not cache failures', async () => {
+      let calls = 0;
+      const fetchUser = flow<number>()
+        .pipeAsync(async id => {
+          if (++calls === 1) throw new Error('Unavailable');
+          return `user-${id}`;
+        })
+        .memoize()
+        .toAsyncFunction();
+
+      await expect(fetchUser(1)).rejects.toThrow('Unavailable');
+      await expect(fetchUser(1)).resolves.toBe('user-1');
+      await expect(fetchUser(1)).resolves.toBe('user-1');
+      expect(calls).toBe(2);
+    });
+
+    it('should expire entries after the ttl', () => {
+      vi.useFakeTimers();
+      const compute = vi.fn((x: number) => x + 1);
+      const increment = flow<number>().pipe(compute).memoize({ ttl: 1000 }).toFunction();
+
+      increment(1);
+      vi.advanceTimersByTime(999);
+      increment(1);
+      vi.advanceTimersByTime(1);
+      increment(1);
+
+      expect(compute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict the least recently used entry', () => {
+      const compute = vi.fn((x: number) => x * 2);
+      const double = flow<number>().pipe(compute).memoize({ max: 2 }).toFunction();
+
+      double(1);
+      double(2);
+      double(1); // 1 is now the most recently used
+      double(3); // Evicts 2
+      double(1);
+      double(2);
+
+      expect(compute.mock.calls.map(([x]) => x)).toEqual([1, 2, 3, 2]);
+    });
+
+    it('should use a custom store', () => {
+      const store = new Map<unknown, unknown>();
+      const double = flow<number>().pipe(x => x * 2).memoize({ store }).toFunction();
+
+      double(21);
+
+      expect(store.get(21)).toEqual({ value: 42 });
+    });
+
+    it('should keep the step metadata', () => {
+      const steps = gluify(() => 1)
+        .pipe(function double(x: number) {
+          return x * 2;
+        })
+        .memoize()
+        .describe();
+
+      expect(steps).toEqual([{ index: 0, kind: 'pipe', name: 'double', args: [expect.any(Function)] }]);
+    });
+
+    it('should require a step or an initial function', () => {
+      expect(() => flow<number>().memoize()).toThrow('memoize() must follow a step or the initial function');
+    });
+  });
+
+  describe('runAsync({ cache })', () => {
+    it('should reuse the result of the same pipeline', async () => {
+      const fetchConfig = vi.fn(async () => ({ retries: 3 }));
+      const pipeline = gluify(fetchConfig).pipeAsync(config => config.retries);
+
+      const first = await pipeline.runAsync({ cache: {} });
+      const second = await pipeline.runAsync({ cache: {} });
+
+      expect([first, second]).toEqual([3, 3]);
+      expect(fetchConfig).toHaveBeenCalledOnce();
+    });
+
+    it('should share concurrent runs', async () => {
+      const fetchConfig = vi.fn(async () => 'config');
+      const pipeline = gluify(fetchConfig);
+
+      await Promise.all([pipeline.runAsync({ cache: {} }), pipeline.runAsync({ cache: {} })]);
+
+      expect(fetchConfig).toHaveBeenCalledOnce();
+    });
+
+    it('should key template runs by input', async () => {
+      const fetchUser = vi.fn(async (id: number) => `user-${id}`);
+      const load = flow<number>().pipeAsync(fetchUser).toAsyncFunction({ cache: {} });
+
+      await load(1);
+      await load(1);
+      await load(2);
+
+      expect(fetchUser).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use an explicit key, store and ttl', async () => {
+      const store = { get: vi.fn(), set: vi.fn(), delete: vi.fn() };
+
+      await gluify(async () => 1).runAsync({ cache: { key: 'config', store, ttl: 5000 } });
+
+      expect(store.set).toHaveBeenCalledWith('config', expect.any(Promise), 5000);
+    });
+
+    it('should not keep failed runs', async () => {
+      let calls = 0;
+      const pipeline = gluify(async () => {
+        if (++calls === 1) throw new Error('Unavailable');
+        return 'ok';
+      });
+
+      const failed = await pipeline.runSafeAsync({ cache: {} });
+      const result = await pipeline.runAsync({ cache: {} });
+
+      expect(failed.ok).toBe(false);
+      expect(result).toBe('ok');
+      expect(calls).toBe(2);
+    });
+
+    it('should not share results across pipelines', async () => {
+      const first = await gluify(async () => 'a').runAsync({ cache: {} });
+      const second = await gluify(async () => 'b').runAsync({ cache: {} });
+
+      expect([first, second]).toEqual(['a', 'b']);
+    });
+
+    it('should not share results with the chain memoize() was called on', async () => {
+      let calls = 0;
+      const original = gluify(async () => `run ${++calls}`);
+      const memoized = original.memoize();
+
+      await original.runAsync({ cache: {} });
+      const result = await memoized.runAsync({ cache: {} });
+
+      expect(result).toBe('run 2');
+    });
+  });
+});
@@ -0,0 +1,376 @@
+import { describe, it, expect } from 'vitest';
+import { gluify } from '../src/Gluify';
+
+interface Sale {
+  region: string;
+  product: string;
+  amount: number;
+}
+
+const sales: Sale[] = [
+  { region: 'EU', product: 'book', amount: 10 },
+  { region: 'US', product: 'pen', amount: 3 },
+  { region: 'EU', product: 'pen', amount: 4 },
+];
+
+describe('Collection Utilities', () => {
+  describe('.groupBy()', () => {
+    it('should group elements into arrays by key', () => {
+      const result = gluify(() => sales)
+        .groupBy(sale => sale.region)
+        .run();
+
+      expect(result).toEqual({
+        EU: [sales[0], sales[2]],
+        US: [sales[1]],
+      });
+    });
+
+    it('should type groups as arrays of elements', () => {
+      const result = gluify(() => sales)
+        .groupBy(sale => sale.region)
+        .pipe(groups => groups.EU.map(sale => sale.amount))
+        .run();
+
+      expect(result).toEqual([10, 4]);
+    });
+
+    it('should store keys that clash with Object.prototype', () => {
+      const result = gluify(() => ['__proto__', 'constructor', '__proto__'])
+        .groupBy(word => word)
+        .run();
+
+      expect(Object.keys(result)).toEqual(['__proto__', 'constructor']);
+      expect(result['__proto__']).toEqual(['__proto__', '__proto__']);
+    });
+  });
+
+  describe('.groupByMap()', () => {
+    it('should group elements into a Map with keys of any type', () => {
+      const eu = { name: 'EU' };
+      const us = { name: 'US' };
+
+      const result = gluify(() => sales)
+        .groupByMap(sale => (sale.region === 'EU' ? eu : us))
+        .run();
+
+      expect([...result.keys()]).toEqual([eu, us]);
+      expect(result.get(eu)).toEqual([sales[0], sales[2]]);
+    });
+  });
+
+  describe('.keyBy()', () => {
+    it('should index elements by key with the last one winning', () => {
+      const result = gluify(() => sales)
+        .keyBy(sale => sale.product)
+        .run();
+
+      expect(result).toEqual({ book: sales[0], pen: sales[2] });
+    });
+  });
+
+  describe('.indexBy()', () => {
+    it('should map keys to element positions', () => {
+      const result = gluify(() => ['a', 'b', 'a'])
+        .indexBy(letter => letter)
+        .run();
+
+      expect(result).toEqual({ a: 2, b: 1 });
+    });
+  });
+
+  describe('.countBy()', () => {
+    it('should count elements by key', () => {
+      const result = gluify(() => sales)
+        .countBy(sale => sale.region)
+        .run();
+
+      expect(result).toEqual({ EU: 2, US: 1 });
+    });
+
+    it('should pass the index to the key function', () => {
+      const result = gluify(() => ['a', 'b', 'c', 'd'])
+        .countBy((_, index) => (index % 2 === 0 ? 'even' : 'odd'))
+        .run();
+
+      expect(result).toEqual({ even: 2, odd: 2 });
+    });
+  });
+
+  describe('.partition()', () => {
+    it('should split elements into matching and rest', () => {
+      const result = gluify(() => [1, 2, 3, 4, 5])
+        .partition(n => n % 2 === 0)
+        .run();
+
+      expect(result).toEqual([[2, 4], [1, 3, 5]]);
+    });
+
+    it('should narrow both sides with a type guard', () => {
+      const result = gluify((): (string | number)[] => ['a', 1, 'b', 2])
+        .partition((x): x is string => typeof x === 'string')
+        .pipe(([words, numbers]) => `${words.join('').toUpperCase()}${numbers.reduce((sum, n) => sum + n, 0)}`)
+        .run();
+
+      expect(result).toBe('AB3');
+    });
+  });
+
+  describe('set operators', () => {
+    const current = [
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'Bob' },
+    ];
+    const fetched = [
+      { id: 2, name: 'Bob' },
+      { id: 3, name: 'Carol' },
+    ];
+    const names = (users: { name: string }[]) => users.map(user => user.name);
+
+    it('should union by key, keeping the first element of each key', () => {
+      const result = gluify(() => current).union(fetched, 'id').pipe(names).run();
+
+      expect(result).toEqual(['Alice', 'Bob', 'Carol']);
+    });
+
+    it('should intersect by key', () => {
+      const result = gluify(() => current).intersect(fetched, user => user.id).pipe(names).run();
+
+      expect(result).toEqual(['Bob']);
+    });
+
+    it('should subtract by key', () => {
+      const result = gluify(() => current).difference(fetched, 'id').pipe(names).run();
+
+      expect(result).toEqual(['Alice']);
+    });
+
+    it('should keep elements whose key is in only one array', () => {
+      const result = gluify(() => current).symmetricDifference(fetched, 'id').pipe(names).run();
+
+      expect(result).toEqual(['Alice', 'Carol']);
+    });
+
+    it('should compare elements themselves without a key', () => {
+      const source = gluify(() => [1, 2, 2, 3]);
+
+      expect(source.union([3, 4]).run()).toEqual([1, 2, 3, 4]);
+      expect(source.intersect([2, 3, 5]).run()).toEqual([2, 3]);
+      expect(source.difference([3]).run()).toEqual([1, 2, 2]);
+      expect(source.symmetricDifference([3, 4, 4]).run()).toEqual([1, 2, 4]);
+    });
+
+    it('should compare objects by reference without a key', () => {
+      const result = gluify(() => current).intersect(fetched).run();
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('sorting', () => {
+    interface Person {
+      firstName: string;
+      lastName: string;
+      age: number | null;
+      address: { city: string };
+    }
+
+    const person = (firstName: string, lastName: string, age: number | null, city: string): Person => ({
+      firstName,
+      lastName,
+      age,
+      address: { city },
+    });
+    const people = [
+      person('Ann', 'Smith', 40, 'Oslo'),
+      person('Bob', 'adams', null, 'Bergen'),
+      person('Cid', 'Smith', 25, 'Oslo'),
+      person('Dee', 'Åberg', 31, 'Bergen'),
+      person('Eve', 'Smith', 40, 'Alta'),
+    ];
+    const first = (list: Person[]) => list.map(p => p.firstName);
+
+    describe('.sortBy()', () => {
+      it('should sort by several keys with directions and null ordering', () => {
+        const result = gluify(() => people)
+          .sortBy([
+            { key: 'lastName', dir: 'asc' },
+            { key: p => p.age, dir: 'desc', nulls: 'last' },
+          ])
+          .pipe(first)
+          .run();
+
+        expect(result).toEqual(['Ann', 'Eve', 'Cid', 'Bob', 'Dee']);
+      });
+
+      it('should keep the original order of equal keys', () => {
+        const result = gluify(() => people).sortBy('address.city').pipe(first).run();
+
+        expect(result).toEqual(['Eve', 'Bob', 'Dee', 'Ann', 'Cid']);
+      });
+
+      it('should put null keys last in either direction unless asked otherwise', () => {
+        const ages = (list: Person[]) => list.map(p => p.age);
+
+        expect(gluify(() => people).sortBy({ key: 'age', dir: 'desc' }).pipe(ages).run()).toEqual([40, 40, 31, 25, null]);
+        expect(gluify(() => people).sortBy({ key: 'age', nulls: 'first' }).pipe(ages).run()).toEqual([null, 25, 31, 40, 40]);
+      });
+
+      it('should compare strings with an Intl.Collator when given locale options', () => {
+        const names = (list: Person[]) => list.map(p => p.lastName);
+
+        expect(gluify(() => people).sortBy('lastName').uniqueBy(p => p.lastName).pipe(names).run()).toEqual([
+          'Smith',
+          'adams',
+          'Åberg',
+        ]);
+        expect(
+          gluify(() => people)
+            .sortBy('lastName', { locales: 'sv', collator: { sensitivity: 'base' } })
+            .uniqueBy(p => p.lastName)
+            .pipe(names)
+            .run()
+        ).toEqual(['adams', 'Smith', 'Åberg']);
+      });
+
+      it('should sort elements themselves without a key', () => {
+        expect(gluify(() => [3, 1, 2]).sortBy().run()).toEqual([1, 2, 3]);
+        expect(gluify(() => [3, 1, 2]).sortBy({ dir: 'desc' }).run()).toEqual([3, 2, 1]);
+      });
+
+      it('should not mutate the input', () => {
+        const input = [2, 1];
+
+        gluify(() => input).sortBy().run();
+
+        expect(input).toEqual([2, 1]);
+      });
+    });
+
+    describe('.orderBy()', () => {
+      it('should sort by keys with matching directions', () => {
+        const result = gluify(() => people)
+          .orderBy(['address.city', p => p.firstName], ['desc', 'desc'])
+          .pipe(first)
+          .run();
+
+        expect(result).toEqual(['Cid', 'Ann', 'Dee', 'Bob', 'Eve']);
+      });
+    });
+
+    describe('.topN()', () => {
+      it('should match sortBy().take()', () => {
+        const numbers = Array.from({ length: 200 }, (_, i) => (i * 7919) % 101);
+        const by = { dir: 'desc' } as const;
+
+        const top = gluify(() => numbers).topN(10, by).run();
+
+        expect(top).toEqual(gluify(() => numbers).sortBy(by).take(10).run());
+      });
+
+      it('should keep the original order of equal keys', () => {
+        const result = gluify(() => people).topN(2, { key: 'age', dir: 'desc' }).pipe(first).run();
+
+        expect(result).toEqual(['Ann', 'Eve']);
+      });
+
+      it('should handle counts of zero and past the end', () => {
+        expect(gluify(() => [2, 1]).topN(0).run()).toEqual([]);
+        expect(gluify(() => [2, 1]).topN(5).run()).toEqual([1, 2]);
+      });
+
+      it('should reject invalid counts', () => {
+        expect(() => gluify(() => [1]).topN(-1)).toThrow('topN() needs a non-negative integer count');
+      });
+    });
+
+    describe('.minBy() / .maxBy()', () => {
+      it('should find the elements with the smallest and largest keys', () => {
+        const pipeline = gluify(() => people);
+
+        expect(pipeline.minBy('age').run()?.firstName).toBe('Cid');
+        expect(pipeline.maxBy(p => p.age).run()?.firstName).toBe('Ann');
+      });
+
+      it('should return undefined for empty arrays', () => {
+        expect(gluify((): number[] => []).minBy().run()).toBeUndefined();
+      });
+    });
+  });
+
+  describe('batching', () => {
+    describe('.chunk()', () => {
+      it('should split into arrays of the given size', () => {
+        expect(gluify(() => [1, 2, 3, 4, 5]).chunk(2).run()).toEqual([[1, 2], [3, 4], [5]]);
+      });
+
+      it('should reject sizes below 1', () => {
+        expect(() => gluify(() => [1]).chunk(0)).toThrow('chunk() size must be a positive integer');
+      });
+    });
+
+    describe('.window()', () => {
+      it('should slide full windows by one element', () => {
+        expect(gluify(() => [1, 2, 3, 4]).window(3).run()).toEqual([
+          [1, 2, 3],
+          [2, 3, 4],
+        ]);
+      });
+
+      it('should start a window every `step` elements', () => {
+        expect(gluify(() => [1, 2, 3, 4, 5, 6, 7]).window(2, 3).run()).toEqual([
+          [1, 2],
+          [4, 5],
+        ]);
+      });
+    });
+
+    describe('.pairwise()', () => {
+      it('should pair consecutive elements', () => {
+        const result = gluify(() => [10, 15, 12])
+          .pairwise()
+          .map(([previous, current]) => current - previous)
+          .run();
+
+        expect(result).toEqual([5, -3]);
+      });
+    });
+
+    describe('.zip() / .zipWith() / .unzip()', () => {
+      it('should zip into typed tuples as long as the shortest array', () => {
+        const result = gluify(() => ['a', 'b', 'c'])
+          .zip([1, 2], [true, false, true])
+          .map(([letter, count, flag]) => `${letter.toUpperCase()}${count.toFixed(0)}${flag ? '!' : ''}`)
+          .run();
+
+        expect(result).toEqual(['A1!', 'B2']);
+      });
+
+      it('should combine elements with zipWith()', () => {
+        const result = gluify(() => [2, 3])
+          .zipWith((price, quantity) => price * quantity, [10, 20])
+          .run();
+
+        expect(result).toEqual([20, 60]);
+      });
+
+      it('should unzip tuples into one array per position', () => {
+        const result = gluify((): [string, number][] => [
+          ['a', 1],
+          ['b', 2],
+        ])
+          .unzip()
+          .pipe(([letters, numbers]) => `${letters.join('')}${numbers.reduce((sum, n) => sum + n, 0)}`)
+          .run();
+
+        expect(result).toBe('ab3');
+      });
+    });
+
+    describe('.interleave()', () => {
+      it('should take elements in turn, continuing with the longer arrays', () => {
+        expect(gluify(() => [1, 2, 3]).interleave(['a'], [true, false]).run()).toEqual([1, 'a', true, 2, false, 3]);
+      });
+    });
+  });
+});
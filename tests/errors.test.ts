@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { gluify } from '../src/Gluify';
+import { gluify, GluifyStepError } from '../src/Gluify';
 
 describe('Error Handling', () => {
   describe('.catch()', () => {
@@ -91,6 +91,86 @@ describe('Error Handling', () => {
     });
   });
 
+  describe('Typed .catch()', () => {
+    class NotFoundError extends Error {
+      constructor(public readonly id: string) {
+        super(`Not found: ${id}`);
+      }
+    }
+
+    class ValidationError extends Error {}
+
+    it('should catch errors matching the given class', () => {
+      const result = gluify(() => {
+        throw new NotFoundError('42');
+      })
+        .catch(NotFoundError, error => `missing ${error.id}`)
+        .run();
+
+      expect(result).toBe('missing 42');
+    });
+
+    it('should let non-matching errors propagate to later handlers', () => {
+      const notFoundHandler = vi.fn(() => 'not found');
+
+      const result = gluify(() => {
+        throw new ValidationError('Invalid');
+      })
+        .catch(NotFoundError, notFoundHandler)
+        .catch(error => `fallback: ${error.message}`)
+        .run();
+
+      expect(notFoundHandler).not.toHaveBeenCalled();
+      expect(result).toBe('fallback: Invalid');
+    });
+
+    it('should rethrow when no handler matches', () => {
+      expect(() =>
+        gluify(() => {
+          throw new ValidationError('Invalid');
+        })
+          .catch(NotFoundError, () => 'not found')
+          .run()
+      ).toThrow(ValidationError);
+    });
+
+    it('should catch errors matching a predicate', async () => {
+      const result = await gluify(async () => {
+        throw Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' });
+      })
+        .catch(error => error.code === 'ETIMEDOUT', () => 'timed out')
+        .catch(error => error.code === 'ECONNRESET', () => 'reset')
+        .runAsync();
+
+      expect(result).toBe('reset');
+    });
+
+    it('should narrow the error with a type guard predicate', () => {
+      const isNotFound = (error: Error): error is NotFoundError => error instanceof NotFoundError;
+
+      const result = gluify(() => {
+        throw new NotFoundError('7');
+      })
+        .catch(isNotFound, error => error.id)
+        .run();
+
+      expect(result).toBe('7');
+    });
+
+    it('should treat a throwing predicate as a new error', () => {
+      const result = gluify(() => {
+        throw new Error('Original');
+      })
+        .catch(() => {
+          throw new Error('Predicate failed');
+        }, () => 'unreachable')
+        .catch(error => error.message)
+        .run();
+
+      expect(result).toBe('Predicate failed');
+    });
+  });
+
   describe('.recover()', () => {
     it('should provide fallback value on error', () => {
       const result = gluify(() => {
@@ -163,6 +243,112 @@ describe('Error Handling', () => {
 
       expect(result).toBe(25);
     });
+
+    it('should narrow the value passed to fn with a type guard', () => {
+      const result = gluify((): string | number => '  padded ')
+        .when((value): value is string => typeof value === 'string', s => s.trim())
+        .run();
+
+      expect(result).toBe('padded');
+    });
+  });
+
+  describe('.finally()', () => {
+    it('should run cleanup without changing the value', () => {
+      const cleanup = vi.fn();
+
+      const result = gluify(() => 2)
+        .pipe(x => x * 3)
+        .finally(cleanup)
+        .pipe(x => x + 1)
+        .run();
+
+      expect(result).toBe(7);
+      expect(cleanup).toHaveBeenCalledOnce();
+    });
+
+    it('should run cleanup while an error is pending without swallowing it', () => {
+      const cleanup = vi.fn();
+
+      const result = gluify(() => 1)
+        .pipe((): number => {
+          throw new Error('Query failed');
+        })
+        .finally(cleanup)
+        .runSafe();
+
+      expect(cleanup).toHaveBeenCalledOnce();
+      expect(result).toEqual({ ok: false, error: new Error('Query failed'), step: 0 });
+    });
+
+    it('should let later handlers see the original error', () => {
+      const result = gluify((): string => {
+        throw new Error('Connection lost');
+      })
+        .finally(() => {})
+        .catch(error => error.message)
+        .run();
+
+      expect(result).toBe('Connection lost');
+    });
+
+    it('should replace the error when the cleanup throws', () => {
+      const result = gluify(() => 1)
+        .finally(() => {
+          throw new Error('Cleanup failed');
+        })
+        .runSafe();
+
+      expect(result).toEqual({ ok: false, error: new Error('Cleanup failed'), step: 0 });
+    });
+
+    it('should not leave a rejected async cleanup unhandled in run()', async () => {
+      const pipeline = gluify(() => 1).finally(async () => {
+        throw new Error('Cleanup failed');
+      });
+
+      expect(pipeline.run()).toBe(1);
+      expect(pipeline.runSafe()).toEqual({ ok: true, value: 1 });
+      // Vitest fails the run on unhandled rejections - give them a chance to surface
+      await new Promise(resolve => setTimeout(resolve, 0));
+    });
+
+    it('should await async cleanup in runAsync()', async () => {
+      const calls: string[] = [];
+
+      const result = await gluify(async () => 'data')
+        .finally(async () => {
+          await Promise.resolve();
+          calls.push('closed');
+        })
+        .pipeAsync(s => {
+          calls.push('next');
+          return s.toUpperCase();
+        })
+        .runAsync();
+
+      expect(result).toBe('DATA');
+      expect(calls).toEqual(['closed', 'next']);
+    });
+
+    it('should still run after the pipeline is aborted', async () => {
+      const controller = new AbortController();
+      const cleanup = vi.fn();
+      const later = vi.fn((x: number) => x);
+
+      const promise = gluify(() => 1)
+        .pipeAsync(async x => {
+          controller.abort(new Error('Cancelled'));
+          return x;
+        })
+        .pipeAsync(later)
+        .finally(cleanup)
+        .runAsync({ signal: controller.signal });
+
+      await expect(promise).rejects.toThrow('Cancelled');
+      expect(later).not.toHaveBeenCalled();
+      expect(cleanup).toHaveBeenCalledOnce();
+    });
   });
 
   describe('Error Propagation', () => {
@@ -267,4 +453,227 @@ describe('Error Handling', () => {
       expect(result).toBe('final fallback');
     });
   });
+
+  describe('.runSafe()', () => {
+    it('should return ok result on success', () => {
+      const result = gluify(() => 21)
+        .pipe(x => x * 2)
+        .runSafe();
+
+      expect(result).toEqual({ ok: true, value: 42 });
+    });
+
+    it('should return the error and failing step instead of throwing', () => {
+      const result = gluify(() => 1)
+        .pipe(x => x + 1)
+        .pipe(() => {
+          throw new Error('Step failed');
+        })
+        .pipe(x => x)
+        .runSafe();
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toBe('Step failed');
+        expect(result.step).toBe(1);
+      }
+    });
+
+    it('should report step -1 when the initial function throws', () => {
+      const result = gluify(() => {
+        throw new Error('Init failed');
+      }).runSafe();
+
+      expect(result).toEqual({ ok: false, error: new Error('Init failed'), step: -1 });
+    });
+
+    it('should report the handler step when a catch handler rethrows', () => {
+      const result = gluify(() => {
+        throw new Error('First');
+      })
+        .pipe(x => x)
+        .catch(() => {
+          throw new Error('Second');
+        })
+        .runSafe();
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toBe('Second');
+        expect(result.step).toBe(1);
+      }
+    });
+
+    it('should return ok when errors are caught', () => {
+      const result = gluify(() => {
+        throw new Error('Handled');
+      })
+        .catch(() => 0)
+        .runSafe();
+
+      expect(result).toEqual({ ok: true, value: 0 });
+    });
+  });
+
+  describe('.runSafeAsync()', () => {
+    it('should resolve ok result for async pipelines', async () => {
+      const result = await gluify(async () => 'hello')
+        .pipeAsync(s => s.toUpperCase())
+        .runSafeAsync();
+
+      expect(result).toEqual({ ok: true, value: 'HELLO' });
+    });
+
+    it('should resolve with the error instead of rejecting', async () => {
+      const result = await gluify(async () => 5)
+        .pipeAsync(async () => {
+          throw new Error('Async step failed');
+        })
+        .runSafeAsync();
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toBe('Async step failed');
+        expect(result.step).toBe(0);
+      }
+    });
+  });
+
+  describe('wrapErrors mode', () => {
+    it('should wrap escaping errors with step context', () => {
+      const original = new Error('Bad JSON');
+      let thrown: unknown;
+
+      try {
+        gluify(() => '{')
+          .pipe(s => s.trim())
+          .pipe((): unknown => {
+            throw original;
+          })
+          .named('parse')
+          .run({ wrapErrors: true });
+      } catch (e) {
+        thrown = e;
+      }
+
+      expect(thrown).toBeInstanceOf(GluifyStepError);
+      const error = thrown as GluifyStepError;
+      expect(error.message).toBe('Step 1 (parse) failed: Bad JSON');
+      expect(error.stepIndex).toBe(1);
+      expect(error.stepName).toBe('parse');
+      expect(error.kind).toBe('pipe');
+      expect(error.input).toBe('{');
+      expect(error.cause).toBe(original);
+    });
+
+    it('should fall back to the operator kind in the message', async () => {
+      await expect(
+        gluify(async () => [1, 2])
+          .pipeAsync(arr => arr)
+          .map((): number => {
+            throw new Error('Mapper failed');
+          })
+          .runAsync({ wrapErrors: true })
+      ).rejects.toThrow('Step 1 (map) failed: Mapper failed');
+    });
+
+    it('should describe initializer failures', () => {
+      expect(() =>
+        gluify(() => {
+          throw new Error('Init failed');
+        }).run({ wrapErrors: true })
+      ).toThrow('Initial function failed: Init failed');
+    });
+
+    it('should record the handled error as input of a failing handler', () => {
+      const first = new Error('First');
+      const result = gluify(() => {
+        throw first;
+      })
+        .catch(() => {
+          throw new Error('Second');
+        })
+        .runSafe({ wrapErrors: true });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBeInstanceOf(GluifyStepError);
+        expect((result.error as GluifyStepError).input).toBe(first);
+        expect(result.error.message).toBe('Step 0 (catch) failed: Second');
+      }
+    });
+
+    it('should redact the recorded input', async () => {
+      const result = await gluify(async () => ({ user: 'alice', password: 'secret' }))
+        .pipeAsync((): string => {
+          throw new Error('Login failed');
+        })
+        .runSafeAsync({
+          wrapErrors: true,
+          redactInput: input => ({ ...(input as object), password: '***' }),
+        });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect((result.error as GluifyStepError).input).toEqual({ user: 'alice', password: '***' });
+      }
+    });
+
+    it('should record no input when redaction throws', async () => {
+      const redactInput = () => {
+        throw new Error('Redaction failed');
+      };
+      const failing = gluify(() => 'secret').pipe((): string => {
+        throw new Error('Login failed');
+      });
+
+      const result = failing.runSafe({ wrapErrors: true, redactInput });
+      const asyncResult = await failing.runSafeAsync({ wrapErrors: true, redactInput });
+
+      for (const outcome of [result, asyncResult]) {
+        expect(outcome.ok).toBe(false);
+        if (!outcome.ok) {
+          expect(outcome.error.message).toBe('Step 0 (pipe) failed: Login failed');
+          expect((outcome.error as GluifyStepError).input).toBeUndefined();
+        }
+      }
+    });
+
+    it('should pass the original error to catch() handlers', () => {
+      const original = new Error('Original');
+      let caught: Error | undefined;
+
+      gluify(() => {
+        throw original;
+      })
+        .catch(error => {
+          caught = error;
+          return 0;
+        })
+        .run({ wrapErrors: true });
+
+      expect(caught).toBe(original);
+    });
+
+    it('should not wrap abort reasons', async () => {
+      const controller = new AbortController();
+      const reason = new Error('Cancelled');
+      controller.abort(reason);
+
+      await expect(
+        gluify(() => 1).runAsync({ wrapErrors: true, signal: controller.signal })
+      ).rejects.toBe(reason);
+    });
+
+    it('should not wrap errors by default', () => {
+      const result = gluify(() => {
+        throw new Error('Raw');
+      }).runSafe();
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).not.toBeInstanceOf(GluifyStepError);
+      }
+    });
+  });
 });
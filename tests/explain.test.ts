@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+import { gluify, flow } from '../src/Gluify';
+
+describe('Explain', () => {
+  describe('.explain()', () => {
+    it('should report the input and output of every step', () => {
+      const { steps, result } = gluify(() => [1, 2, 3])
+        .map(x => x * 2)
+        .filter(x => x > 2)
+        .explain();
+
+      expect(steps.map(({ index, kind, status, input, output }) => ({ index, kind, status, input, output }))).toEqual([
+        { index: -1, kind: 'initial', status: 'ok', input: undefined, output: [1, 2, 3] },
+        { index: 0, kind: 'map', status: 'ok', input: [1, 2, 3], output: [2, 4, 6] },
+        { index: 1, kind: 'filter', status: 'ok', input: [2, 4, 6], output: [4, 6] },
+      ]);
+      expect(result).toEqual({ ok: true, value: [4, 6] });
+    });
+
+    it('should start from the sample input instead of the initial function', () => {
+      const init = vi.fn(() => 'from init');
+
+      const { steps, result } = gluify(init)
+        .toUpperCase()
+        .explain('sample');
+
+      expect(init).not.toHaveBeenCalled();
+      expect(steps[0].output).toBe('sample');
+      expect(result).toEqual({ ok: true, value: 'SAMPLE' });
+    });
+
+    it('should explain flow() templates with a sample', () => {
+      const { result } = flow<string>().trim().explain('  padded ');
+
+      expect(result).toEqual({ ok: true, value: 'padded' });
+    });
+
+    it('should show failures, skipped steps and handlers that fired', () => {
+      const failure = new Error('Bad JSON');
+
+      const { steps, result } = gluify(() => '{')
+        .pipe((): unknown => {
+          throw failure;
+        })
+        .pipe(x => x)
+        .catch(() => ({}))
+        .explain();
+
+      expect(steps.map(step => step.status)).toEqual(['ok', 'failed', 'skipped', 'handled']);
+      expect(steps[1].error).toBe(failure);
+      expect(steps[3]).toMatchObject({ kind: 'catch', input: failure, output: {} });
+      expect(result).toEqual({ ok: true, value: {} });
+    });
+
+    it('should report the failing step in the result', () => {
+      const { result } = gluify(() => 1)
+        .pipe((): number => {
+          throw new Error('Boom');
+        })
+        .named('explode')
+        .explain();
+
+      expect(result).toEqual({ ok: false, error: new Error('Boom'), step: 0, name: 'explode' });
+    });
+
+    it('should report the branch taken by when(), branch() and match()', () => {
+      const { steps } = gluify(() => 10)
+        .when(x => x > 5, x => x * 2)
+        .when(x => x > 100, x => x * 2)
+        .branch(x => x % 2 === 0, x => x / 2, x => x)
+        .match([{ case: x => x < 0, then: () => 'negative' }], () => 'positive')
+        .explain();
+
+      expect(steps.slice(1).map(step => step.branch)).toEqual(['applied', 'skipped', 'onTrue', 'otherwise']);
+    });
+
+    it('should report the variant taken by matchOn()', () => {
+      const { steps } = gluify((): { kind: 'a' } | { kind: 'b' } => ({ kind: 'b' }))
+        .matchOn('kind', { a: () => 1, b: () => 2 })
+        .explain();
+
+      expect(steps[1].branch).toBe('b');
+    });
+
+    it('should skip side effects', () => {
+      const log = vi.fn();
+      const notify = vi.fn((x: number) => x);
+
+      const { steps, result } = gluify(() => 1)
+        .tap(log)
+        .pipe(notify)
+        .sideEffect()
+        .pipe(x => x + 1)
+        .finally(log)
+        .explain();
+
+      expect(log).not.toHaveBeenCalled();
+      expect(notify).not.toHaveBeenCalled();
+      expect(steps.filter(step => step.sideEffect).map(step => [step.kind, step.status])).toEqual([
+        ['tap', 'skipped'],
+        ['pipe', 'skipped'],
+        ['finally', 'skipped'],
+      ]);
+      expect(result).toEqual({ ok: true, value: 2 });
+    });
+
+    it('should leave out markers', () => {
+      const { steps } = gluify(() => 1)
+        .checkpoint()
+        .pipe(x => x)
+        .retry()
+        .explain();
+
+      expect(steps.map(step => step.index)).toEqual([-1, 1]);
+    });
+  });
+
+  describe('.explainAsync()', () => {
+    it('should explain async pipelines', async () => {
+      const { steps, result } = await gluify(async () => 2)
+        .pipeAsync(async x => x * 3)
+        .explainAsync();
+
+      expect(steps[1]).toMatchObject({ kind: 'pipeAsync', status: 'ok', input: 2, output: 6 });
+      expect(result).toEqual({ ok: true, value: 6 });
+    });
+
+    it('should skip async side effects', async () => {
+      const save = vi.fn(async () => {});
+
+      const { result } = await gluify(() => [1, 2])
+        .forEachAsync(save)
+        .explainAsync();
+
+      expect(save).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: true, value: [1, 2] });
+    });
+  });
+
+  describe('.sideEffect()', () => {
+    it('should flag the previous step in describe()', () => {
+      const steps = gluify(() => 1).pipe(x => x).sideEffect().tap(() => {}).describe();
+
+      expect(steps.map(step => step.sideEffect)).toEqual([true, true]);
+    });
+
+    it('should not change how run() behaves', () => {
+      const notify = vi.fn();
+
+      gluify(() => 1).pipe(notify).sideEffect().run();
+
+      expect(notify).toHaveBeenCalledOnce();
+    });
+
+    it('should require a step before it', () => {
+      expect(() => gluify(() => 1).sideEffect()).toThrow('sideEffect() must follow the step it flags');
+    });
+  });
+});
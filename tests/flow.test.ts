@@ -0,0 +1,320 @@
+import { describe, it, expect, vi } from 'vitest';
+import { gluify, flow } from '../src/Gluify';
+
+describe('Templates', () => {
+  describe('flow()', () => {
+    it('should build a reusable function from a chain', () => {
+      const normalize = flow<string>()
+        .trim()
+        .toLowerCase()
+        .toFunction();
+
+      expect(normalize('  Alice ')).toBe('alice');
+      expect(normalize('BOB')).toBe('bob');
+    });
+
+    it('should type the input and output', () => {
+      const countWords = flow<string>()
+        .split(' ')
+        .pipe(words => words.length)
+        .toFunction();
+
+      const count: number = countWords('one two three');
+      expect(count).toBe(3);
+    });
+
+    it('should not run anything until called', () => {
+      const step = vi.fn((x: number) => x);
+
+      const double = flow<number>().pipe(step).pipe(x => x * 2).toFunction();
+
+      expect(step).not.toHaveBeenCalled();
+      expect(double(4)).toBe(8);
+      expect(step).toHaveBeenCalledOnce();
+    });
+
+    it('should be usable as a single pipe() step', () => {
+      const validateAge = flow<number>()
+        .pipe(age => {
+          if (age < 0) throw new Error('Age must be positive');
+          return age;
+        })
+        .toFunction();
+
+      const result = gluify(() => ({ name: 'Alice', age: -1 }))
+        .pipe(user => user.age)
+        .pipe(validateAge)
+        .catch(error => error.message)
+        .run();
+
+      expect(result).toBe('Age must be positive');
+    });
+
+    it('should keep error handlers inside the template', () => {
+      const parse = flow<string>()
+        .pipe(JSON.parse)
+        .recover(null)
+        .toFunction();
+
+      expect(parse('{"a":1}')).toEqual({ a: 1 });
+      expect(parse('{invalid')).toBeNull();
+    });
+
+    it('should run with the given options', () => {
+      const onStep = vi.fn();
+      const increment = flow<number>().pipe(x => x + 1).toFunction({ onStep });
+
+      increment(1);
+
+      expect(onStep).toHaveBeenCalledWith(expect.objectContaining({ type: 'end', index: 0, output: 2 }));
+    });
+
+    it('should run a template passed straight to pipe() as a single step', () => {
+      const increment = flow<number>().pipe(x => x + 1).pipe(x => `#${x}`);
+
+      const pipeline = gluify(() => 1).pipe(increment);
+
+      expect(pipeline.run()).toBe('#2');
+      expect(pipeline.describe().map(step => step.kind)).toEqual(['pipe']);
+      expect(() => gluify(() => 1).pipe(gluify(() => 2) as never)).toThrow(
+        'pipe() needs a function or a chain started with flow()'
+      );
+    });
+
+    it('should run a template with async steps passed to pipe() in runAsync()', async () => {
+      const recover = flow<number>()
+        .pipeAsync(async (): Promise<number> => {
+          throw new Error('Lookup failed');
+        })
+        .catch(() => 0);
+      const seen: unknown[] = [];
+      const wrap = flow<number>()
+        .pipeAsync(async x => [x])
+        .tap(value => seen.push(value));
+
+      expect(await gluify(() => 1).pipe(recover).runAsync()).toBe(0);
+      expect(await gluify(() => 1).pipe(wrap).runAsync()).toEqual([1]);
+      // Later steps see the awaited value, not the promise
+      expect(seen).toEqual([[1]]);
+    });
+
+    it('should pass the signal to templates passed to pipe() and apply their retries', async () => {
+      const controller = new AbortController();
+      let calls = 0;
+      let received: AbortSignal | undefined;
+      const template = flow<number>()
+        .pipeAsyncWithContext(async (x, ctx) => {
+          received = ctx.signal;
+          if (++calls === 1) throw new Error('Flaky');
+          return x + 1;
+        })
+        .retry({ attempts: 2 });
+
+      const result = await gluify(() => 1)
+        .pipe(template)
+        .runAsync({ signal: controller.signal });
+
+      expect(result).toBe(2);
+      expect(calls).toBe(2);
+      expect(received).toBe(controller.signal);
+    });
+
+    it('should reject chains started with gluify()', () => {
+      expect(() => gluify(() => 1).toFunction()).toThrow('toFunction() needs a chain started with flow()');
+    });
+  });
+
+  describe('.toAsyncFunction()', () => {
+    it('should build a reusable async function', async () => {
+      const enrich = flow<{ id: number }>()
+        .pipeAsync(async user => ({ ...user, score: user.id * 10 }))
+        .pipeAsync(user => user.score)
+        .toAsyncFunction();
+
+      await expect(enrich({ id: 2 })).resolves.toBe(20);
+      await expect(enrich({ id: 5 })).resolves.toBe(50);
+    });
+
+    it('should be usable as a pipeAsync() step', async () => {
+      const fetchName = flow<number>()
+        .pipeAsync(async id => `user-${id}`)
+        .toAsyncFunction();
+
+      const result = await gluify(async () => 7)
+        .pipeAsync(fetchName)
+        .pipeAsync(name => name.toUpperCase())
+        .runAsync();
+
+      expect(result).toBe('USER-7');
+    });
+  });
+
+  describe('.through()', () => {
+    it('should splice a template into the chain', () => {
+      const normalize = flow<string>().trim().toLowerCase();
+
+      const result = gluify(() => '  HELLO ')
+        .through(normalize)
+        .pipe(s => `${s}!`)
+        .run();
+
+      expect(result).toBe('hello!');
+    });
+
+    it('should let template handlers catch errors raised inside it', () => {
+      const parse = flow<string>()
+        .pipe((s): Record<string, unknown> => JSON.parse(s))
+        .catch(() => ({}));
+
+      const result = gluify(() => '{invalid')
+        .through(parse)
+        .run();
+
+      expect(result).toEqual({});
+    });
+
+    it('should not let template handlers catch earlier errors', () => {
+      const fallback = vi.fn(() => 'template fallback');
+      const template = flow<string>().pipe(s => s.trim()).catch(fallback);
+
+      const result = gluify((): string => {
+        throw new Error('Load failed');
+      })
+        .through(template)
+        .catch(error => `outer: ${error.message}`)
+        .run();
+
+      expect(result).toBe('outer: Load failed');
+      expect(fallback).not.toHaveBeenCalled();
+    });
+
+    it('should let uncaught template errors reach later handlers', async () => {
+      const template = flow<number>().pipeAsync(async (): Promise<number> => {
+        throw new Error('Lookup failed');
+      });
+
+      const result = await gluify(() => 1)
+        .through(template)
+        .catch(error => error.message)
+        .runAsync();
+
+      expect(result).toBe('Lookup failed');
+    });
+
+    it('should show up in describe()', () => {
+      const template = flow<number>().pipe(x => x + 1);
+
+      const steps = gluify(() => 1).through(template).describe();
+
+      expect(steps.map(step => step.kind)).toEqual(['through', 'pipe', 'closeSegment']);
+      expect(steps[0].args).toEqual([template]);
+    });
+
+    it('should not let template retries re-run steps outside it', () => {
+      const flaky = vi.fn((x: number): number => {
+        throw new Error(`Failed on ${x}`);
+      });
+      const outer = vi.fn((x: number) => x + 1);
+      let calls = 0;
+      const inner = flow<number>()
+        .pipe(x => {
+          if (++calls === 1) throw new Error('Flaky');
+          return x * 10;
+        })
+        .retry({ attempts: 2 });
+
+      const failed = gluify(() => 1)
+        .pipe(flaky)
+        .through(flow<number>().retry({ attempts: 3 }))
+        .runSafe();
+      const result = gluify(() => 1)
+        .checkpoint()
+        .pipe(outer)
+        .through(inner)
+        .run();
+
+      expect(failed.ok).toBe(false);
+      expect(flaky).toHaveBeenCalledOnce();
+      expect(result).toBe(20);
+      expect(outer).toHaveBeenCalledOnce();
+    });
+
+    it('should not let template timeouts bound steps outside it', async () => {
+      const result = await gluify(() => 1)
+        .pipeAsync(x => new Promise<number>(resolve => setTimeout(() => resolve(x + 1), 30)))
+        .through(flow<number>().timeout(5))
+        .runAsync();
+
+      expect(result).toBe(2);
+    });
+
+    it('should splice chains started with gluify() without their initializer', () => {
+      const init = vi.fn(() => 2);
+      const chain = gluify(init).pipe(x => x * 10);
+
+      const result = gluify(() => 1)
+        .through(chain)
+        .run();
+
+      expect(result).toBe(10);
+      expect(init).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('.openSegment() / .closeSegment()', () => {
+    it('should scope handlers to the segment', () => {
+      const inner = vi.fn(() => 0);
+
+      const result = gluify((): number => {
+        throw new Error('Init failed');
+      })
+        .openSegment()
+        .pipe(x => x * 2)
+        .catch(inner)
+        .closeSegment()
+        .catch(() => -1)
+        .run();
+
+      expect(result).toBe(-1);
+      expect(inner).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors raised inside the segment', () => {
+      const result = gluify(() => 2)
+        .openSegment()
+        .pipe((): number => {
+          throw new Error('Step failed');
+        })
+        .catch(() => 0)
+        .closeSegment()
+        .pipe(x => x + 1)
+        .run();
+
+      expect(result).toBe(1);
+    });
+
+    it('should support nested segments', () => {
+      const outer = vi.fn(() => 'outer');
+      const inner = vi.fn(() => 'inner');
+
+      const result = gluify(() => 'a')
+        .openSegment()
+        .pipe((): string => {
+          throw new Error('Outer step failed');
+        })
+        .openSegment()
+        .catch(inner)
+        .closeSegment()
+        .catch(outer)
+        .closeSegment()
+        .run();
+
+      expect(result).toBe('outer');
+      expect(inner).not.toHaveBeenCalled();
+    });
+
+    it('should require an open segment', () => {
+      expect(() => gluify(() => 1).closeSegment()).toThrow('closeSegment() must follow openSegment()');
+    });
+  });
+});
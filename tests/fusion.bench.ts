@@ -0,0 +1,38 @@
+import { bench, describe } from 'vitest';
+import { gluify } from '../src/Gluify';
+
+const items = Array.from({ length: 10_000 }, (_, i) => i);
+
+// Tracing turns fusion off, giving the one-array-per-step baseline
+const unfused = { onStep: () => {} };
+
+describe('filter().map().filter().take()', () => {
+  const pipeline = gluify(() => items)
+    .filter(n => n % 2 === 0)
+    .map(n => n * 3)
+    .filter(n => n % 4 === 0)
+    .take(1_000);
+
+  bench('fused', () => {
+    pipeline.run();
+  });
+
+  bench('unfused', () => {
+    pipeline.run(unfused);
+  });
+});
+
+describe('map().map().skip()', () => {
+  const pipeline = gluify(() => items)
+    .map(n => n + 1)
+    .map(n => n * 2)
+    .skip(100);
+
+  bench('fused', () => {
+    pipeline.run();
+  });
+
+  bench('unfused', () => {
+    pipeline.run(unfused);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import { gluify, Gluify } from '../src/Gluify';
+
+// Tracing observes every step, which turns fusion off - run both ways and compare
+const fusedAndUnfused = <T>(pipeline: Gluify<T>) => ({
+  fused: pipeline.runSafe(),
+  unfused: pipeline.runSafe({ onStep: () => {} }),
+});
+
+describe('Fusion', () => {
+  it('should give the same results for fused array steps', () => {
+    const { fused, unfused } = fusedAndUnfused(
+      gluify(() => Array.from({ length: 50 }, (_, i) => i))
+        .filter(n => n % 3 !== 0)
+        .map((n, i) => n * 10 + i)
+        .skip(4)
+        .filter((n, i) => n % 2 === 0 || i < 3)
+        .take(10)
+    );
+
+    expect(fused).toEqual(unfused);
+    expect(fused.ok && fused.value.length).toBe(10);
+  });
+
+  it('should not allocate intermediate arrays', () => {
+    const map = vi.spyOn(Array.prototype, 'map');
+    const filter = vi.spyOn(Array.prototype, 'filter');
+    const isLarge = (n: number) => n > 1;
+    const double = (n: number) => n * 2;
+
+    gluify(() => [1, 2, 3, 4])
+      .filter(isLarge)
+      .map(double)
+      .take(2)
+      .run();
+
+    expect(filter.mock.calls.some(([fn]) => fn === isLarge)).toBe(false);
+    expect(map.mock.calls.some(([fn]) => fn === double)).toBe(false);
+    vi.restoreAllMocks();
+  });
+
+  it('should keep holes of sparse arrays like the unfused steps', () => {
+    // eslint-disable-next-line no-sparse-arrays
+    const sparse = [1, , 3, , 5];
+
+    const { fused, unfused } = fusedAndUnfused(
+      gluify(() => sparse)
+        .map(n => (n as number) * 2)
+        .skip(1)
+        .take(3)
+    );
+
+    expect(fused).toEqual(unfused);
+    expect(fused.ok && 0 in fused.value).toBe(false);
+  });
+
+  it('should report the step an unfused run would have failed at', () => {
+    // The map fails on the first item, but the filter before it fails on a later item -
+    // run one step at a time, the filter's error comes first
+    const { fused, unfused } = fusedAndUnfused(
+      gluify(() => [1, 2, 3])
+        .filter(n => {
+          if (n === 3) throw new Error('Filter failed');
+          return true;
+        })
+        .map((): number => {
+          throw new Error('Map failed');
+        })
+    );
+
+    expect(fused).toEqual(unfused);
+    expect(fused).toEqual({ ok: false, error: new Error('Filter failed'), step: 0 });
+  });
+
+  it('should call back in the same order as the unfused steps', () => {
+    const calls: string[] = [];
+    const pipeline = gluify(() => [1, 2, 3])
+      .map(n => {
+        calls.push(`map ${n}`);
+        return n;
+      })
+      .filter(n => {
+        calls.push(`filter ${n}`);
+        return n > 1;
+      });
+
+    pipeline.run();
+    const fused = calls.splice(0);
+    pipeline.run({ onStep: () => {} });
+
+    expect(fused).toEqual(calls);
+    expect(fused).toEqual(['map 1', 'map 2', 'map 3', 'filter 1', 'filter 2', 'filter 3']);
+  });
+
+  it('should still run earlier steps on every item after take() is full', () => {
+    const { fused, unfused } = fusedAndUnfused(
+      gluify(() => [1, 2, 3, 4])
+        .map(n => {
+          if (n === 4) throw new Error('Bad item');
+          return n;
+        })
+        .take(1)
+    );
+
+    expect(fused).toEqual(unfused);
+    expect(fused.ok).toBe(false);
+  });
+
+  it('should let catch() handle errors from fused steps', () => {
+    const result = gluify(() => [1, 2])
+      .map((): number => {
+        throw new Error('Mapper failed');
+      })
+      .filter(n => n > 0)
+      .catch(error => error.message)
+      .run();
+
+    expect(result).toBe('Mapper failed');
+  });
+
+  it('should not fuse steps a retry restarts from', () => {
+    let calls = 0;
+
+    const result = gluify(() => [1, 2])
+      .map(n => n * 2)
+      .map(n => {
+        if (++calls === 1) throw new Error('Flaky');
+        return n + 1;
+      })
+      .retry()
+      .run();
+
+    expect(result).toEqual([3, 5]);
+  });
+
+  it('should not fuse callbacks that may read the array argument', () => {
+    const { fused, unfused } = fusedAndUnfused(
+      gluify(() => [1, 2, 3])
+        .map((...args: unknown[]) => args.length)
+        .map(function (n: number) {
+          return n + (arguments[2] as number[]).length;
+        })
+        .filter((n, i, array = []) => array.length === 3)
+        .map(n => n)
+    );
+
+    expect(fused).toEqual(unfused);
+    expect(fused).toEqual({ ok: true, value: [6, 6, 6] });
+  });
+
+  it('should fall back for non-array values', () => {
+    const { fused, unfused } = fusedAndUnfused(
+      gluify(() => 'not an array' as unknown as number[])
+        .map(n => n)
+        .take(1)
+    );
+
+    expect(fused).toEqual(unfused);
+    expect(fused.ok).toBe(false);
+  });
+
+  it('should fuse in runAsync()', async () => {
+    const filter = vi.spyOn(Array.prototype, 'filter');
+    const isLarge = (n: number) => n > 5;
+
+    const result = await gluify(async () => [5, 6, 7])
+      .pipeAsync(arr => arr)
+      .filter(isLarge)
+      .map(n => `#${n}`)
+      .runAsync();
+
+    expect(result).toEqual(['#6', '#7']);
+    expect(filter.mock.calls.some(([fn]) => fn === isLarge)).toBe(false);
+    vi.restoreAllMocks();
+  });
+});
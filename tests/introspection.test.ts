@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { gluify, StepEvent } from '../src/Gluify';
+
+describe('Introspection', () => {
+  describe('.describe()', () => {
+    it('should list every step with its kind and arguments', () => {
+      const isEven = (n: number) => n % 2 === 0;
+      const pipeline = gluify(() => [1, 2, 3, 4])
+        .filter(isEven)
+        .take(1)
+        .catch(() => []);
+
+      const steps = pipeline.describe();
+
+      expect(steps.map(step => step.kind)).toEqual(['filter', 'take', 'catch']);
+      expect(steps[0]).toEqual({ index: 0, kind: 'filter', args: [isEven] });
+      expect(steps[1]).toEqual({ index: 1, kind: 'take', args: [1] });
+    });
+
+    it('should name pipe() steps after their function', () => {
+      const double = (x: number) => x * 2;
+      const addTo = (x: number, y: number) => x + y;
+
+      const steps = gluify(() => 1)
+        .pipe(double)
+        .pipe(addTo, 3)
+        .pipe(x => x)
+        .describe();
+
+      expect(steps[0]).toEqual({ index: 0, kind: 'pipe', name: 'double', args: [double] });
+      expect(steps[1]).toEqual({ index: 1, kind: 'pipe', name: 'addTo', args: [addTo, 3] });
+      expect(steps[2].name).toBeUndefined();
+    });
+
+    it('should describe recover() and markers', () => {
+      const steps = gluify(() => 1)
+        .checkpoint()
+        .pipe(x => x)
+        .timeout(100)
+        .retry({ attempts: 2 })
+        .recover(0)
+        .describe();
+
+      expect(steps.map(step => step.kind)).toEqual(['checkpoint', 'pipe', 'timeout', 'retry', 'recover']);
+      expect(steps[4].args).toEqual([0]);
+    });
+
+    it('should not execute the pipeline', () => {
+      let executed = false;
+
+      gluify(() => {
+        executed = true;
+        return 1;
+      })
+        .pipe(x => x)
+        .describe();
+
+      expect(executed).toBe(false);
+    });
+  });
+
+  describe('.named()', () => {
+    it('should name the previous step', () => {
+      const steps = gluify(() => 'alice')
+        .pipe(s => s.trim())
+        .named('normalize')
+        .toUpperCase()
+        .named('shout')
+        .describe();
+
+      expect(steps.map(step => step.name)).toEqual(['normalize', 'shout']);
+    });
+
+    it('should not change the behaviour of the step', async () => {
+      const result = await gluify(async () => 2)
+        .pipeAsync(x => x * 5)
+        .named('multiply')
+        .catch(() => 0)
+        .named('fallback')
+        .runAsync();
+
+      expect(result).toBe(10);
+    });
+
+    it('should not affect the pipeline it was derived from', () => {
+      const base = gluify(() => 1).pipe(x => x + 1);
+      base.named('increment');
+
+      expect(base.describe()[0].name).toBeUndefined();
+    });
+
+    it('should require a step before it', () => {
+      expect(() => gluify(() => 1).named('nothing')).toThrow('named() must follow the step it names');
+    });
+
+    it('should report the failing step name in runSafe()', () => {
+      const result = gluify(() => '{invalid')
+        .pipe(JSON.parse)
+        .named('parseConfig')
+        .runSafe();
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.step).toBe(0);
+        expect(result.name).toBe('parseConfig');
+      }
+    });
+
+    it('should include the name in tracing events', () => {
+      const events: StepEvent[] = [];
+
+      gluify(() => 1)
+        .pipe(x => x + 1)
+        .named('increment')
+        .run({ onStep: event => events.push(event) });
+
+      expect(events.filter(event => event.index === 0).map(event => event.name)).toEqual([
+        'increment',
+        'increment',
+      ]);
+    });
+  });
+
+  describe('.toJSON()', () => {
+    it('should serialize functions by name', () => {
+      const double = (x: number) => x * 2;
+
+      const json = JSON.parse(
+        JSON.stringify(
+          gluify(() => [1, 2])
+            .map(double)
+            .filter(x => x > 2)
+            .join(', ')
+        )
+      );
+
+      expect(json).toEqual([
+        { index: 0, kind: 'map', args: ['[Function double]'] },
+        { index: 1, kind: 'filter', args: ['[Function anonymous]'] },
+        { index: 2, kind: 'join', args: [', '] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, vi } from 'vitest';
+import { gluify } from '../src/Gluify';
+
+// Generator that records how many items were read from it
+const counted = <T>(items: T[]) => {
+  const reads = { count: 0, closed: false };
+  function* source() {
+    try {
+      for (const item of items) {
+        reads.count++;
+        yield item;
+      }
+    } finally {
+      reads.closed = true;
+    }
+  }
+  return { source: source(), reads };
+};
+
+// Async source, like lines read from a file
+async function* lines(...items: string[]) {
+  for (const item of items) {
+    await Promise.resolve();
+    yield item;
+  }
+}
+
+describe('Iterable Mode', () => {
+  describe('gluify.iter()', () => {
+    it('should run fused operators over a sync iterable', async () => {
+      const result = await gluify
+        .iter([1, 2, 3, 4, 5, 6])
+        .map(n => n * 10)
+        .filter(n => n > 20)
+        .skip(1)
+        .take(2)
+        .runAsync();
+
+      expect(result).toEqual([40, 50]);
+    });
+
+    it('should process async iterables one item at a time', async () => {
+      const order: string[] = [];
+
+      const result = await gluify
+        .iter(lines('{"id":1}', '{"id":2}'))
+        .map(line => {
+          order.push(`parse ${line}`);
+          return JSON.parse(line) as { id: number };
+        })
+        .map(async record => {
+          order.push(`enrich ${record.id}`);
+          return record.id;
+        })
+        .runAsync();
+
+      expect(result).toEqual([1, 2]);
+      expect(order).toEqual(['parse {"id":1}', 'enrich 1', 'parse {"id":2}', 'enrich 2']);
+    });
+
+    it('should not read the source before it runs', async () => {
+      const { source, reads } = counted([1, 2, 3]);
+      const pipeline = gluify.iter(source).map(n => n + 1);
+
+      expect(reads.count).toBe(0);
+      await pipeline.runAsync();
+      expect(reads.count).toBe(3);
+    });
+
+    it('should stop reading the source after take()', async () => {
+      const { source, reads } = counted([1, 2, 3, 4, 5]);
+
+      const result = await gluify.iter(source).take(2).runAsync();
+
+      expect(result).toEqual([1, 2]);
+      expect(reads.count).toBe(2);
+      expect(reads.closed).toBe(true);
+    });
+
+    it('should support for await', async () => {
+      const seen: string[] = [];
+
+      for await (const word of gluify.iter(['a', 'b', 'a']).unique().map(s => s.toUpperCase())) {
+        seen.push(word);
+      }
+
+      expect(seen).toEqual(['A', 'B']);
+    });
+
+    it('should narrow with type guards and compact()', async () => {
+      const result = await gluify
+        .iter<string | number | null>(['a', 1, null, 'b'])
+        .compact()
+        .filter((x): x is string => typeof x === 'string')
+        .map(s => s.toUpperCase())
+        .runAsync();
+
+      expect(result).toEqual(['A', 'B']);
+    });
+
+    it('should flatten with flatMap() and run side effects with tap()', async () => {
+      const seen = vi.fn();
+
+      const result = await gluify
+        .iter(['a b', 'c'])
+        .flatMap(line => line.split(' '))
+        .tap(seen)
+        .runAsync();
+
+      expect(result).toEqual(['a', 'b', 'c']);
+      expect(seen).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject with errors raised by operators', async () => {
+      await expect(
+        gluify
+          .iter(lines('{"ok":true}', '{broken'))
+          .map(line => JSON.parse(line))
+          .runAsync()
+      ).rejects.toThrow(SyntaxError);
+    });
+  });
+
+  describe('terminal operators', () => {
+    it('should stop early with find()', async () => {
+      const { source, reads } = counted([1, 2, 3, 4]);
+
+      const result = await gluify.iter(source).find(n => n === 2).runAsync();
+
+      expect(result).toBe(2);
+      expect(reads.count).toBe(2);
+      expect(reads.closed).toBe(true);
+    });
+
+    it('should stop early with some() and every()', async () => {
+      const first = counted([1, 2, 3, 4]);
+      const second = counted([1, 2, 3, 4]);
+
+      await expect(gluify.iter(first.source).some(n => n > 1).runAsync()).resolves.toBe(true);
+      await expect(gluify.iter(second.source).every(n => n < 2).runAsync()).resolves.toBe(false);
+      expect(first.reads.count).toBe(2);
+      expect(second.reads.count).toBe(2);
+    });
+
+    it('should reduce the items', async () => {
+      const total = await gluify.iter(lines('1', '2', '3')).reduce((sum, line) => sum + Number(line), 0).runAsync();
+
+      expect(total).toBe(6);
+    });
+
+    it('should continue as a regular chain', async () => {
+      const result = await gluify
+        .iter([3, 1, 2])
+        .collect()
+        .pipeAsync(items => items.sort())
+        .pipeAsync(items => items.join(','))
+        .runAsync();
+
+      expect(result).toBe('1,2,3');
+    });
+
+    it('should stop reading once the signal aborts', async () => {
+      const controller = new AbortController();
+      const { source, reads } = counted([1, 2, 3, 4]);
+
+      const promise = gluify
+        .iter(source)
+        .tap(n => {
+          if (n === 2) controller.abort(new Error('Cancelled'));
+        })
+        .runAsync({ signal: controller.signal });
+
+      await expect(promise).rejects.toThrow('Cancelled');
+      expect(reads.count).toBe(2);
+    });
+  });
+
+  describe('batching operators', () => {
+    it('should chunk and window items as they arrive', async () => {
+      const chunks = await gluify.iter(lines('a', 'b', 'c')).chunk(2).runAsync();
+      const windows = await gluify.iter([1, 2, 3, 4, 5]).window(2, 2).runAsync();
+      const spaced = await gluify.iter([1, 2, 3, 4, 5, 6]).window(1, 3).runAsync();
+
+      expect(chunks).toEqual([['a', 'b'], ['c']]);
+      expect(windows).toEqual([
+        [1, 2],
+        [3, 4],
+      ]);
+      expect(spaced).toEqual([[1], [4]]);
+    });
+
+    it('should pair consecutive items', async () => {
+      const result = await gluify.iter([1, 4, 9]).pairwise().map(([a, b]) => b - a).runAsync();
+
+      expect(result).toEqual([3, 5]);
+    });
+
+    it('should zip with async iterables and close the longer sources', async () => {
+      const { source, reads } = counted([1, 2, 3, 4]);
+
+      const result = await gluify
+        .iter(lines('a', 'b'))
+        .zip(source)
+        .map(([letter, n]) => letter.repeat(n))
+        .runAsync();
+
+      expect(result).toEqual(['a', 'bb']);
+      expect(reads.count).toBe(2);
+      expect(reads.closed).toBe(true);
+    });
+
+    it('should combine items with zipWith()', async () => {
+      const result = await gluify.iter([1, 2]).zipWith(async (a, b) => a + b, [10, 20, 30]).runAsync();
+
+      expect(result).toEqual([11, 22]);
+    });
+
+    it('should interleave sources', async () => {
+      const result = await gluify.iter([1, 2, 3]).interleave(lines('a', 'b')).runAsync();
+
+      expect(result).toEqual([1, 'a', 2, 'b', 3]);
+    });
+
+    it('should stop reading interleaved sources after take()', async () => {
+      const { source, reads } = counted([1, 2, 3]);
+
+      const result = await gluify.iter(['a', 'b', 'c']).interleave(source).take(3).runAsync();
+
+      expect(result).toEqual(['a', 1, 'b']);
+      expect(reads.closed).toBe(true);
+    });
+
+    it('should unzip into arrays', async () => {
+      const result = await gluify
+        .iter([1, 2])
+        .map((n): [number, string] => [n, `#${n}`])
+        .unzip()
+        .runAsync();
+
+      expect(result).toEqual([
+        [1, 2],
+        ['#1', '#2'],
+      ]);
+    });
+  });
+});
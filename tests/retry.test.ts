@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { gluify } from '../src/Gluify';
+
+// Clock that resolves immediately and records requested delays
+const createClock = () => ({ sleep: vi.fn(async (_ms: number) => {}) });
+
+// Function that fails `failures` times before returning `value`
+const flaky = <T>(failures: number, value: T) => {
+  let calls = 0;
+  return vi.fn(async () => {
+    calls++;
+    if (calls <= failures) {
+      throw new Error(`Attempt ${calls} failed`);
+    }
+    return value;
+  });
+};
+
+describe('Retry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('.retry()', () => {
+    it('should re-run the previous step until it succeeds', async () => {
+      const fetchUser = flaky(2, { name: 'Alice' });
+
+      const result = await gluify(() => 1)
+        .pipeAsync(fetchUser)
+        .retry({ attempts: 3, clock: createClock() })
+        .pipeAsync(user => user.name)
+        .runAsync();
+
+      expect(result).toBe('Alice');
+      expect(fetchUser).toHaveBeenCalledTimes(3);
+    });
+
+    it('should pass the original input to every try', async () => {
+      const inputs: number[] = [];
+      let calls = 0;
+
+      const result = await gluify(() => 5)
+        .pipe(x => x * 2)
+        .pipeAsync(async x => {
+          inputs.push(x);
+          if (++calls < 2) throw new Error('Flaky');
+          return x + 1;
+        })
+        .retry({ clock: createClock() })
+        .runAsync();
+
+      expect(result).toBe(11);
+      expect(inputs).toEqual([10, 10]);
+    });
+
+    it('should retry the lazy initializer when it is the previous step', async () => {
+      const fetchConfig = flaky(1, { debug: true });
+
+      const result = await gluify(fetchConfig)
+        .retry({ clock: createClock() })
+        .runAsync();
+
+      expect(result).toEqual({ debug: true });
+      expect(fetchConfig).toHaveBeenCalledTimes(2);
+    });
+
+    it('should rethrow the last error once attempts are exhausted', async () => {
+      const fetchUser = flaky(5, 'never');
+
+      await expect(
+        gluify(() => 1)
+          .pipeAsync(fetchUser)
+          .retry({ attempts: 3, clock: createClock() })
+          .runAsync()
+      ).rejects.toThrow('Attempt 3 failed');
+      expect(fetchUser).toHaveBeenCalledTimes(3);
+    });
+
+    it('should let later catch handlers see the final error', async () => {
+      const result = await gluify(() => 1)
+        .pipeAsync(flaky(5, 'never'))
+        .retry({ attempts: 2, clock: createClock() })
+        .catch(error => error.message)
+        .runAsync();
+
+      expect(result).toBe('Attempt 2 failed');
+    });
+
+    it('should not retry errors raised before the retried step', async () => {
+      const step = vi.fn((x: number) => x);
+
+      await expect(
+        gluify((): number => {
+          throw new Error('Init failed');
+        })
+          .pipe(step)
+          .retry({ clock: createClock() })
+          .runAsync()
+      ).rejects.toThrow('Init failed');
+      expect(step).not.toHaveBeenCalled();
+    });
+
+    it('should only retry errors accepted by retryIf', async () => {
+      const fetchUser = vi.fn(async () => {
+        throw Object.assign(new Error('Not found'), { status: 404 });
+      });
+      const retryIf = vi.fn((error: Error) => (error as Error & { status: number }).status >= 500);
+
+      await expect(
+        gluify(() => 1)
+          .pipeAsync(fetchUser)
+          .retry({ attempts: 5, retryIf, clock: createClock() })
+          .runAsync()
+      ).rejects.toThrow('Not found');
+      expect(fetchUser).toHaveBeenCalledOnce();
+      expect(retryIf).toHaveBeenCalledWith(expect.any(Error), 1);
+    });
+
+    it('should wait a fixed delay between tries', async () => {
+      const clock = createClock();
+
+      await gluify(() => 1)
+        .pipeAsync(flaky(2, 'ok'))
+        .retry({ attempts: 3, delay: 100, clock })
+        .runAsync();
+
+      expect(clock.sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 100]);
+    });
+
+    it('should double the delay with exponential backoff', async () => {
+      const clock = createClock();
+
+      await gluify(() => 1)
+        .pipeAsync(flaky(3, 'ok'))
+        .retry({ attempts: 4, delay: 100, backoff: 'exponential', clock })
+        .runAsync();
+
+      expect(clock.sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200, 400]);
+    });
+
+    it('should randomize delays with jitter', async () => {
+      const clock = createClock();
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      await gluify(() => 1)
+        .pipeAsync(flaky(1, 'ok'))
+        .retry({ delay: 100, jitter: true, clock })
+        .runAsync();
+
+      expect(clock.sleep).toHaveBeenCalledWith(50);
+      vi.restoreAllMocks();
+    });
+
+    it('should use timers by default so fake timers apply', async () => {
+      vi.useFakeTimers();
+      const fetchUser = flaky(1, 'ok');
+
+      const promise = gluify(() => 1)
+        .pipeAsync(fetchUser)
+        .retry({ delay: 1000 })
+        .runAsync();
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(fetchUser).toHaveBeenCalledOnce();
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toBe('ok');
+      expect(fetchUser).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry immediately in sync pipelines', () => {
+      let calls = 0;
+
+      const result = gluify(() => 1)
+        .pipe(x => {
+          if (++calls < 3) throw new Error('Flaky');
+          return x + 1;
+        })
+        .retry({ delay: 1000 })
+        .run();
+
+      expect(result).toBe(2);
+      expect(calls).toBe(3);
+    });
+  });
+
+  describe('.checkpoint()', () => {
+    it('should re-run every step since the checkpoint', async () => {
+      const connect = vi.fn(async (url: string) => ({ url }));
+      const query = flaky(1, [1, 2, 3]);
+
+      const result = await gluify(() => 'db://local')
+        .checkpoint()
+        .pipeAsync(connect)
+        .pipeAsync(query)
+        .retry({ clock: createClock() })
+        .runAsync();
+
+      expect(result).toEqual([1, 2, 3]);
+      expect(connect).toHaveBeenCalledTimes(2);
+      expect(connect).toHaveBeenLastCalledWith('db://local');
+    });
+
+    it('should only apply to the next retry', async () => {
+      const first = vi.fn(async (x: number) => x + 1);
+      const second = flaky(1, 'done');
+
+      await gluify(() => 1)
+        .checkpoint()
+        .pipeAsync(first)
+        .retry({ clock: createClock() })
+        .pipeAsync(second)
+        .retry({ clock: createClock() })
+        .runAsync();
+
+      expect(first).toHaveBeenCalledOnce();
+      expect(second).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { gluify } from '../src/Gluify';
+
+const orders = [
+  { id: 1, total: 30, customer: { visits: 4 } },
+  { id: 2, total: 10, customer: { visits: 1 } },
+  { id: 3, total: 20, customer: { visits: 1 } },
+];
+
+describe('Statistics Utilities', () => {
+  describe('number arrays', () => {
+    const numbers = gluify(() => [4, 1, 3, 2]);
+
+    it('should sum, average and find the extremes', () => {
+      expect(numbers.sum().run()).toBe(10);
+      expect(numbers.mean().run()).toBe(2.5);
+      expect(numbers.min().run()).toBe(1);
+      expect(numbers.max().run()).toBe(4);
+    });
+
+    it('should find the median of odd and even counts', () => {
+      expect(numbers.median().run()).toBe(2.5);
+      expect(gluify(() => [5, 1, 3]).median().run()).toBe(3);
+    });
+
+    it('should compute population and sample variance', () => {
+      expect(numbers.variance().run()).toBe(1.25);
+      expect(numbers.variance({ sample: true }).run()).toBeCloseTo(5 / 3);
+      expect(numbers.stddev().run()).toBeCloseTo(Math.sqrt(1.25));
+    });
+
+    it('should interpolate percentiles between ranks', () => {
+      expect(numbers.percentile(0).run()).toBe(1);
+      expect(numbers.percentile(100).run()).toBe(4);
+      expect(numbers.percentile(25).run()).toBe(1.75);
+    });
+
+    it('should not mutate the input', () => {
+      const input = [3, 1, 2];
+
+      gluify(() => input).median().run();
+
+      expect(input).toEqual([3, 1, 2]);
+    });
+
+    it('should handle large arrays', () => {
+      const many = Array.from({ length: 200_000 }, (_, i) => i);
+
+      expect(gluify(() => many).max().run()).toBe(199_999);
+    });
+  });
+
+  describe('key selectors', () => {
+    it('should read numbers with a key path or function', () => {
+      const pipeline = gluify(() => orders);
+
+      expect(pipeline.sum('total').run()).toBe(60);
+      expect(pipeline.mean(order => order.total).run()).toBe(20);
+      expect(pipeline.max('customer.visits').run()).toBe(4);
+      expect(pipeline.percentile(50, 'total').run()).toBe(20);
+    });
+  });
+
+  describe('empty arrays', () => {
+    const empty = gluify((): number[] => []);
+
+    it('should throw by default', () => {
+      expect(() => empty.mean().run()).toThrow('mean() needs at least one value');
+      expect(() => empty.min().run()).toThrow('min() needs at least one value');
+    });
+
+    it('should return undefined or NaN when asked', () => {
+      const mean: number | undefined = empty.mean({ empty: 'undefined' }).run();
+
+      expect(mean).toBeUndefined();
+      expect(empty.median(undefined, { empty: 'nan' }).run()).toBeNaN();
+    });
+
+    it('should sum to 0', () => {
+      expect(empty.sum().run()).toBe(0);
+    });
+
+    it('should need two values for sample variance', () => {
+      expect(() => gluify(() => [1]).variance({ sample: true }).run()).toThrow('variance() needs at least two values');
+    });
+
+    it('should be interceptable by catch()', () => {
+      const result = empty
+        .max()
+        .catch(() => 0)
+        .run();
+
+      expect(result).toBe(0);
+    });
+  });
+
+  describe('.histogram()', () => {
+    it('should count values in equal-width buckets', () => {
+      const result = gluify(() => [0, 1, 2, 5, 9, 10]).histogram(2).run();
+
+      expect(result).toEqual([
+        { from: 0, to: 5, count: 3 },
+        { from: 5, to: 10, count: 3 },
+      ]);
+    });
+
+    it('should count values between boundaries, ignoring values outside them', () => {
+      const result = gluify(() => orders).histogram([0, 15, 25], 'total').run();
+
+      expect(result).toEqual([
+        { from: 0, to: 15, count: 1 },
+        { from: 15, to: 25, count: 1 },
+      ]);
+    });
+
+    it('should put equal values in a single bucket', () => {
+      expect(gluify(() => [3, 3, 3]).histogram(2).run()).toEqual([{ from: 3, to: 3, count: 3 }]);
+    });
+
+    it('should handle empty arrays', () => {
+      expect(gluify((): number[] => []).histogram(3).run()).toEqual([]);
+      expect(gluify((): number[] => []).histogram([0, 1]).run()).toEqual([{ from: 0, to: 1, count: 0 }]);
+    });
+
+    it('should reject invalid buckets', () => {
+      expect(() => gluify(() => [1]).histogram(0)).toThrow('histogram() bucket count must be a positive integer');
+      expect(() => gluify(() => [1]).histogram([2, 1])).toThrow(
+        'histogram() boundaries must be at least two ascending numbers'
+      );
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gluify, GluifyTimeoutError } from '../src/Gluify';
+
+// Resolve with `value` after `ms` milliseconds
+const delayed = <T>(ms: number, value: T) =>
+  new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+
+describe('Timeouts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('.timeout()', () => {
+    it('should reject when the previous step takes too long', async () => {
+      const promise = gluify(() => 1)
+        .pipeAsync(() => delayed(500, 'slow'))
+        .timeout(100)
+        .runAsync();
+      const assertion = expect(promise).rejects.toThrow(GluifyTimeoutError);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await assertion;
+    });
+
+    it('should describe the step and the limit', async () => {
+      const promise = gluify(() => 1)
+        .pipe(x => x + 1)
+        .pipeAsync(() => delayed(500, 'slow'))
+        .timeout(100)
+        .runSafeAsync();
+
+      await vi.advanceTimersByTimeAsync(100);
+      const result = await promise;
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBeInstanceOf(GluifyTimeoutError);
+        expect(result.error.message).toBe('Step 1 timed out after 100ms');
+        expect((result.error as GluifyTimeoutError).timeout).toBe(100);
+        expect(result.step).toBe(1);
+      }
+    });
+
+    it('should resolve when the step finishes in time', async () => {
+      const promise = gluify(() => 1)
+        .pipeAsync(() => delayed(50, 'fast'))
+        .timeout(100)
+        .runAsync();
+
+      await vi.advanceTimersByTimeAsync(50);
+      await expect(promise).resolves.toBe('fast');
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should bound the lazy initializer', async () => {
+      const promise = gluify(() => delayed(500, 'config'))
+        .timeout(100)
+        .runSafeAsync();
+
+      await vi.advanceTimersByTimeAsync(100);
+      const result = await promise;
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toBe('Initial function timed out after 100ms');
+        expect(result.step).toBe(-1);
+      }
+    });
+
+    it('should be interceptable by catch()', async () => {
+      const promise = gluify(() => 1)
+        .pipeAsync(() => delayed(500, 'slow'))
+        .timeout(100)
+        .catch(GluifyTimeoutError, () => 'cached')
+        .runAsync();
+
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(promise).resolves.toBe('cached');
+    });
+
+    it('should work together with retry()', async () => {
+      let calls = 0;
+      const promise = gluify(() => 1)
+        .pipeAsync(() => (++calls === 1 ? delayed(500, 'slow') : Promise.resolve('fast')))
+        .timeout(100)
+        .retry({ attempts: 2, delay: 10 })
+        .runAsync();
+
+      await vi.advanceTimersByTimeAsync(110);
+      await expect(promise).resolves.toBe('fast');
+      expect(calls).toBe(2);
+    });
+
+    it('should not affect synchronous run()', () => {
+      const result = gluify(() => 1)
+        .pipe(x => x + 1)
+        .timeout(0)
+        .run();
+
+      expect(result).toBe(2);
+    });
+  });
+
+  describe('runAsync({ timeout })', () => {
+    it('should bound the whole pipeline', async () => {
+      const promise = gluify(() => delayed(60, 1))
+        .pipeAsync(x => delayed(60, x + 1))
+        .runSafeAsync({ timeout: 100 });
+
+      await vi.advanceTimersByTimeAsync(100);
+      const result = await promise;
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBeInstanceOf(GluifyTimeoutError);
+        expect(result.error.message).toBe('Pipeline timed out after 100ms');
+        expect(result.step).toBe(0);
+      }
+    });
+
+    it('should not start steps once the deadline has passed', async () => {
+      const step = vi.fn((x: number) => x);
+      const promise = gluify(() => 1)
+        .pipe(() => {
+          vi.advanceTimersByTime(200);
+          return 2;
+        })
+        .pipe(step)
+        .runAsync({ timeout: 100 });
+
+      await expect(promise).rejects.toThrow('Pipeline timed out after 100ms');
+      expect(step).not.toHaveBeenCalled();
+    });
+
+    it('should let catch() handlers recover from the pipeline timeout', async () => {
+      const promise = gluify(() => delayed(500, 'slow'))
+        .catch(error => (error instanceof GluifyTimeoutError ? 'timed out' : 'other'))
+        .runAsync({ timeout: 100 });
+
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(promise).resolves.toBe('timed out');
+    });
+
+    it('should bound pending catch() handlers and finally() cleanups', async () => {
+      const hungHandler = gluify(async (): Promise<string> => {
+        throw new Error('Boom');
+      })
+        .catch(() => new Promise<string>(() => {})) // Never settles
+        .runSafeAsync({ timeout: 50 });
+      const hungCleanup = gluify(() => 1)
+        .finally(() => new Promise(() => {}))
+        .runSafeAsync({ timeout: 50 });
+
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(await hungHandler).toEqual({ ok: false, error: new GluifyTimeoutError('Pipeline timed out after 50ms', 50), step: 0 });
+      expect(await hungCleanup).toEqual({ ok: false, error: new GluifyTimeoutError('Pipeline timed out after 50ms', 50), step: 0 });
+    });
+
+    it('should use the shorter of the step and pipeline limits', async () => {
+      const promise = gluify(() => 1)
+        .pipeAsync(() => delayed(500, 'slow'))
+        .timeout(1000)
+        .runAsync({ timeout: 100 });
+      const assertion = expect(promise).rejects.toThrow('Pipeline timed out after 100ms');
+
+      await vi.advanceTimersByTimeAsync(100);
+      await assertion;
+    });
+
+    it('should resolve when the pipeline finishes in time', async () => {
+      const promise = gluify(() => delayed(20, 1))
+        .pipeAsync(x => delayed(20, x + 1))
+        .runAsync({ timeout: 100 });
+
+      await vi.advanceTimersByTimeAsync(40);
+      await expect(promise).resolves.toBe(2);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { gluify, Gluify, StepEvent } from '../src/Gluify';
+
+// Drop the timing so events can be compared with toEqual
+const withoutDuration = (events: StepEvent[]) =>
+  events.map(({ duration: _duration, ...event }) => event);
+
+describe('Tracing', () => {
+  describe('run({ onStep })', () => {
+    it('should emit start and end events for every step', () => {
+      const events: StepEvent[] = [];
+
+      gluify(() => 2)
+        .pipe(x => x * 3)
+        .tap(() => {})
+        .run({ onStep: event => events.push(event) });
+
+      expect(withoutDuration(events)).toEqual([
+        { type: 'start', index: -1, input: undefined },
+        { type: 'end', index: -1, input: undefined, output: 2 },
+        { type: 'start', index: 0, input: 2 },
+        { type: 'end', index: 0, input: 2, output: 6 },
+        { type: 'start', index: 1, input: 6 },
+        { type: 'end', index: 1, input: 6, output: 6 },
+      ]);
+    });
+
+    it('should report durations on end events', () => {
+      const events: StepEvent[] = [];
+
+      gluify(() => 1).run({ onStep: event => events.push(event) });
+
+      expect(events[0].duration).toBeUndefined();
+      expect(events[1].duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should emit error events and handler steps', () => {
+      const events: StepEvent[] = [];
+      const failure = new Error('Boom');
+
+      gluify(() => 1)
+        .pipe((): number => {
+          throw failure;
+        })
+        .pipe(x => x + 1)
+        .catch(() => 0)
+        .run({ onStep: event => events.push(event) });
+
+      expect(withoutDuration(events).slice(2)).toEqual([
+        { type: 'start', index: 0, input: 1 },
+        { type: 'error', index: 0, input: 1, error: failure },
+        { type: 'start', index: 2, input: failure },
+        { type: 'end', index: 2, input: failure, output: 0 },
+      ]);
+    });
+
+    it('should not let a failing listener break the pipeline', () => {
+      const result = gluify(() => 1)
+        .pipe(x => x + 1)
+        .run({
+          onStep: () => {
+            throw new Error('Listener failed');
+          },
+        });
+
+      expect(result).toBe(2);
+    });
+  });
+
+  describe('runAsync({ onStep })', () => {
+    it('should emit end events once async steps resolve', async () => {
+      const events: StepEvent[] = [];
+
+      await gluify(async () => 'a')
+        .pipeAsync(async s => s + 'b')
+        .runAsync({ onStep: event => events.push(event) });
+
+      expect(withoutDuration(events)).toEqual([
+        { type: 'start', index: -1, input: undefined },
+        { type: 'end', index: -1, input: undefined, output: 'a' },
+        { type: 'start', index: 0, input: 'a' },
+        { type: 'end', index: 0, input: 'a', output: 'ab' },
+      ]);
+    });
+
+    it('should emit error events for rejected steps', async () => {
+      const onStep = vi.fn();
+
+      await gluify(async () => 1)
+        .pipeAsync(async () => {
+          throw new Error('Rejected');
+        })
+        .runSafeAsync({ onStep });
+
+      expect(onStep).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: 'error', index: 0, error: new Error('Rejected') })
+      );
+    });
+
+    it('should emit events for every retried try', async () => {
+      const events: StepEvent[] = [];
+      let calls = 0;
+
+      await gluify(() => 1)
+        .pipeAsync(async x => {
+          if (++calls < 2) throw new Error('Flaky');
+          return x;
+        })
+        .retry()
+        .runAsync({ onStep: event => events.push(event) });
+
+      expect(events.filter(event => event.index === 0).map(event => event.type)).toEqual([
+        'start',
+        'error',
+        'start',
+        'end',
+      ]);
+    });
+  });
+
+  describe('Gluify.use()', () => {
+    it('should notify global listeners for every pipeline', async () => {
+      const listener = vi.fn();
+      const unregister = Gluify.use(listener);
+
+      gluify(() => 1).run();
+      await gluify(async () => 2).runAsync();
+      unregister();
+      gluify(() => 3).run();
+
+      expect(listener).toHaveBeenCalledTimes(4);
+    });
+
+    it('should notify global listeners before the run listener', () => {
+      const calls: string[] = [];
+      const unregister = Gluify.use(() => calls.push('global'));
+
+      gluify(() => 1).run({ onStep: () => calls.push('run') });
+      unregister();
+
+      expect(calls).toEqual(['global', 'run', 'global', 'run']);
+    });
+  });
+});
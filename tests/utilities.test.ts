@@ -37,6 +37,15 @@ describe('Utility Methods', () => {
 
         expect(result).toEqual(['a', 'c']);
       });
+
+      it('should narrow the element type with a type guard', () => {
+        const result = gluify((): (string | number)[] => ['a', 1, 'b', 2])
+          .filter((x): x is string => typeof x === 'string')
+          .map(s => s.toUpperCase())
+          .run();
+
+        expect(result).toEqual(['A', 'B']);
+      });
     });
 
     describe('.reduce()', () => {
@@ -73,6 +82,15 @@ describe('Utility Methods', () => {
 
         expect(result).toBeUndefined();
       });
+
+      it('should narrow the result with a type guard', () => {
+        const result = gluify((): (string | number)[] => [1, 'two', 3])
+          .find((x): x is string => typeof x === 'string')
+          .pipe(s => s?.length)
+          .run();
+
+        expect(result).toBe(3);
+      });
     });
 
     describe('.some()', () => {
@@ -109,6 +127,14 @@ describe('Utility Methods', () => {
 
         expect(result).toBe(false);
       });
+
+      it('should accept type guard predicates', () => {
+        const result = gluify((): (string | number)[] => ['a', 'b'])
+          .every((x): x is string => typeof x === 'string')
+          .run();
+
+        expect(result).toBe(true);
+      });
     });
 
     describe('.take()', () => {
@@ -230,6 +256,50 @@ describe('Utility Methods', () => {
         expect(result).toEqual(['a', 'b', 'c']);
       });
     });
+
+    describe('.uniqueBy()', () => {
+      const users = [
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+        { id: 1, name: 'Alice (copy)' },
+      ];
+
+      it('should remove elements with duplicate keys, keeping the first', () => {
+        const result = gluify(() => users)
+          .uniqueBy(user => user.id)
+          .run();
+
+        expect(result).toEqual([users[0], users[1]]);
+      });
+
+      it('should accept a property name', () => {
+        const result = gluify(() => users)
+          .uniqueBy('id')
+          .map(user => user.name)
+          .run();
+
+        expect(result).toEqual(['Alice', 'Bob']);
+      });
+    });
+
+    describe('.compact()', () => {
+      it('should remove null, undefined and falsy values', () => {
+        const result = gluify(() => [0, 1, null, 2, undefined, '', false, 3])
+          .compact()
+          .run();
+
+        expect(result).toEqual([1, 2, 3]);
+      });
+
+      it('should narrow to non-nullable elements', () => {
+        const result = gluify((): (string | null | undefined)[] => ['a', null, 'b', undefined])
+          .compact()
+          .map(s => s.toUpperCase())
+          .run();
+
+        expect(result).toEqual(['A', 'B']);
+      });
+    });
   });
 
   describe('Object Utilities', () => {
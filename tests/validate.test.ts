@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { gluify, GluifyValidationError } from '../src/Gluify';
+
+interface User {
+  name: string;
+  age: number;
+}
+
+// Hand-written checker with a Zod-style safeParse()
+const userSchema = {
+  safeParse(value: unknown) {
+    const user = value as Partial<User>;
+    const issues = [
+      ...(typeof user?.name === 'string' ? [] : [{ message: 'Expected a name', path: ['name'] }]),
+      ...(typeof user?.age === 'number' ? [] : [{ message: 'Expected an age', path: ['age'] }]),
+    ];
+    return issues.length
+      ? { success: false as const, error: { issues } }
+      : { success: true as const, data: user as User };
+  },
+};
+
+// Checker with a parse() that throws
+const positiveSchema = {
+  parse(value: unknown): number {
+    if (typeof value !== 'number' || value <= 0) {
+      throw new Error('Expected a positive number');
+    }
+    return value;
+  },
+};
+
+describe('Validation', () => {
+  describe('.validate()', () => {
+    it('should narrow the value to the schema output', () => {
+      const result = gluify((): unknown => JSON.parse('{"name":"Alice","age":30}'))
+        .validate(userSchema)
+        .pipe(user => user.name.toUpperCase())
+        .run();
+
+      expect(result).toBe('ALICE');
+    });
+
+    it('should throw a GluifyValidationError with every issue', () => {
+      const result = gluify((): unknown => ({ age: 'old' }))
+        .validate(userSchema)
+        .runSafe();
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        const error = result.error as GluifyValidationError;
+        expect(error).toBeInstanceOf(GluifyValidationError);
+        expect(error.message).toBe('Validation failed: Expected a name; Expected an age');
+        expect(error.issues).toEqual([
+          { message: 'Expected a name', path: ['name'] },
+          { message: 'Expected an age', path: ['age'] },
+        ]);
+      }
+    });
+
+    it('should support schemas with a throwing parse()', () => {
+      expect(gluify(() => 5).validate(positiveSchema).run()).toBe(5);
+      expect(() => gluify(() => -1).validate(positiveSchema).run()).toThrow(
+        'Validation failed: Expected a positive number'
+      );
+    });
+
+    it('should keep the schema error as the cause', () => {
+      const result = gluify(() => 0).validate(positiveSchema).runSafe();
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.cause).toEqual(new Error('Expected a positive number'));
+      }
+    });
+
+    it('should be interceptable by catch()', () => {
+      const result = gluify((): unknown => null)
+        .validate(userSchema)
+        .catch(GluifyValidationError, error => error.issues.length)
+        .run();
+
+      expect(result).toBe(2);
+    });
+
+    it('should validate the resolved value of async steps', async () => {
+      const result = await gluify(async (): Promise<unknown> => ({ name: 'Bob', age: 42 }))
+        .validate(userSchema)
+        .pipeAsync(user => user.age)
+        .runAsync();
+
+      expect(result).toBe(42);
+    });
+  });
+});